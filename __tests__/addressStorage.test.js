@@ -1,5 +1,6 @@
 const { ensureAddressString } = require("../build/npm/dist/util");
 const {WalletLink} = require("../build/npm/dist");
+const { makeLinkedProvider, makeProvider, makeRelay } = require("./providerFixtures")
 
 describe("address storage tests", function() {
   it("ensureAddressString returns lowercase string", function() {
@@ -43,4 +44,67 @@ describe("address storage tests", function() {
       done()
     })
   })
-})
\ No newline at end of file
+})
+describe("multiple account tests", function() {
+  const FIRST = "0x" + "11".repeat(20)
+  const SECOND = "0x" + "22".repeat(20)
+  let provider
+
+  afterEach(function() {
+    provider.destroy()
+  })
+
+  it("keeps the selected account first when switching accounts", async function() {
+    provider = await makeLinkedProvider(makeRelay([FIRST, SECOND, FIRST]))
+    const events = []
+    provider.on("accountsChanged", accounts => events.push(accounts))
+
+    provider.switchAccount(SECOND)
+
+    expect(provider.selectedAddress).toEqual(SECOND)
+    expect(events).toEqual([[SECOND, FIRST]])
+    expect(() => provider.switchAccount("0x" + "33".repeat(20))).toThrow()
+  })
+})
+
+describe("watch-only tests", function() {
+  const WATCHED = "0x" + "ab".repeat(20)
+  let provider = null
+
+  afterEach(function() {
+    if (provider) {
+      provider.destroy()
+      provider = null
+    }
+  })
+
+  it("answers eth_accounts from watched addresses and rejects signing", async function() {
+    provider = makeProvider(makeRelay(), { watchAddresses: [WATCHED] })
+
+    expect(provider.isWatchOnly).toBe(true)
+    expect(await provider.request({ method: "eth_accounts" })).toEqual([WATCHED])
+    await expectAsync(
+      provider.request({ method: "personal_sign", params: ["0x00", WATCHED] })
+    ).toBeRejectedWith(jasmine.objectContaining({ code: 4100 }))
+  })
+
+  it("warns that the extension ignores watched addresses", function() {
+    const extension = { setProviderInfo: jasmine.createSpy("setProviderInfo") }
+    window.walletLinkExtension = extension
+    spyOn(console, "warn")
+
+    try {
+      const walletLink = new WalletLink({ appName: "My Awesome DApp" })
+      const provider = walletLink.makeWeb3Provider(
+        "https://mainnet.infura.io/v3/INFURA_API_KEY", 1, [WATCHED]
+      )
+
+      expect(provider).toBe(extension)
+      expect(console.warn).toHaveBeenCalledTimes(1)
+      walletLink.makeWeb3Provider("https://mainnet.infura.io/v3/INFURA_API_KEY", 1)
+      expect(console.warn).toHaveBeenCalledTimes(1)
+    } finally {
+      delete window.walletLinkExtension
+    }
+  })
+})
@@ -0,0 +1,139 @@
+const {
+  VisibilityAwareBlockTracker
+} = require("../build/npm/dist/provider/VisibilityAwareBlockTracker")
+const { makeProvider, makeRelay } = require("./providerFixtures")
+
+// resolves once pending promise callbacks have run
+async function flush() {
+  for (let i = 0; i < 20; i++) {
+    await Promise.resolve()
+  }
+}
+
+// provider whose node mines a block each time it is asked for one
+function makeNode() {
+  const node = {
+    blockNumberRequests: 0,
+    sendAsync(req, callback) {
+      node.blockNumberRequests++
+      const result = "0x" + node.blockNumberRequests.toString(16)
+      setTimeout(() => callback(null, { jsonrpc: "2.0", id: req.id, result }), 0)
+    }
+  }
+  return node
+}
+
+describe("block tracker tests", function() {
+  let visibilityState
+
+  function setVisibility(state) {
+    visibilityState = state
+    document.dispatchEvent(new Event("visibilitychange"))
+  }
+
+  // lets the node answer, then waits for the tracker to handle the answer
+  async function answer() {
+    await flush()
+    jasmine.clock().tick(0)
+    await flush()
+  }
+
+  beforeEach(function() {
+    visibilityState = "visible"
+    Object.defineProperty(document, "visibilityState", {
+      configurable: true,
+      get: () => visibilityState
+    })
+    jasmine.clock().install()
+  })
+
+  afterEach(function() {
+    jasmine.clock().uninstall()
+    delete document.visibilityState
+  })
+
+  it("stops polling while the page is hidden and catches up when visible", async function() {
+    const node = makeNode()
+    const tracker = new VisibilityAwareBlockTracker({ provider: node, pollingInterval: 1000 })
+    const blocks = []
+    tracker.on("latest", block => blocks.push(block))
+    await answer()
+    jasmine.clock().tick(1000)
+    await answer()
+    expect(blocks).toEqual(["0x1", "0x2"])
+
+    setVisibility("hidden")
+    jasmine.clock().tick(10000)
+    await answer()
+    expect(node.blockNumberRequests).toEqual(2)
+
+    setVisibility("visible")
+    await answer()
+    jasmine.clock().tick(1000)
+    await answer()
+    expect(blocks).toEqual(["0x1", "0x2", "0x3", "0x4"])
+    tracker.destroy()
+  })
+
+  it("fetches the latest block on demand while the page is hidden", async function() {
+    visibilityState = "hidden"
+    const node = makeNode()
+    const tracker = new VisibilityAwareBlockTracker({ provider: node, pollingInterval: 1000 })
+    tracker.on("latest", () => {})
+
+    const latest = tracker.getLatestBlock()
+    await answer()
+
+    expect(await latest).toEqual("0x1")
+    jasmine.clock().tick(10000)
+    await answer()
+    expect(node.blockNumberRequests).toEqual(1)
+    tracker.destroy()
+  })
+
+  it("stops polling once destroyed", async function() {
+    const node = makeNode()
+    const tracker = new VisibilityAwareBlockTracker({ provider: node, pollingInterval: 1000 })
+    tracker.on("latest", () => {})
+    await answer()
+
+    tracker.destroy()
+    setVisibility("hidden")
+    setVisibility("visible")
+    jasmine.clock().tick(10000)
+    await answer()
+
+    expect(tracker.isRunning()).toBe(false)
+    expect(node.blockNumberRequests).toEqual(1)
+  })
+
+  it("stops polling for subscriptions once the provider is destroyed", async function() {
+    const requests = []
+    const relay = makeRelay([], {
+      makeEthereumJSONRPCRequest(req) {
+        requests.push(req.method)
+        const result =
+          req.method === "eth_blockNumber" ? "0x1" : { number: "0x1", hash: "0x" + "01".repeat(32) }
+        return Promise.resolve({ jsonrpc: "2.0", id: req.id, result })
+      }
+    })
+    const provider = makeProvider(relay, { pollingInterval: 1000 })
+    const messages = []
+    provider.on("message", message => messages.push(message))
+
+    const subscribed = provider.request({ method: "eth_subscribe", params: ["newHeads"] })
+    await answer()
+    await subscribed
+    jasmine.clock().tick(1000)
+    await answer()
+    const polled = requests.length
+    expect(polled).toBeGreaterThan(0)
+
+    provider.destroy()
+    jasmine.clock().tick(10000)
+    await answer()
+
+    expect(requests.length).toEqual(polled)
+    expect(messages.length).toEqual(1)
+  })
+})
@@ -0,0 +1,87 @@
+const { WalletLink } = require("../build/npm/dist")
+
+const NODE_URL = "https://mainnet.infura.io/v3/INFURA_API_KEY"
+
+function makeWalletLink(options = {}) {
+  return new WalletLink({
+    appName: "My Awesome DApp",
+    appLogoUrl: "https://example.com/logo.png",
+    ...options
+  })
+}
+
+describe("EIP-6963 tests", function() {
+  let announced
+  let providers
+  const onAnnounce = event => announced.push(event.detail)
+
+  // announcements of the providers made by the spec, leaving out those of
+  // other specs' providers
+  function announcedBySpec() {
+    return announced.filter(detail => providers.includes(detail.provider))
+  }
+
+  function makeProvider(walletLink) {
+    const provider = walletLink.makeWeb3Provider(NODE_URL, 1)
+    providers.push(provider)
+    return provider
+  }
+
+  beforeEach(function() {
+    announced = []
+    providers = []
+    window.addEventListener("eip6963:announceProvider", onAnnounce)
+  })
+
+  afterEach(function() {
+    window.removeEventListener("eip6963:announceProvider", onAnnounce)
+    providers.forEach(provider => provider.destroy())
+  })
+
+  it("announces providers and re-announces them on request", function() {
+    const provider = makeProvider(makeWalletLink())
+
+    expect(announcedBySpec().length).toEqual(1)
+    const [detail] = announcedBySpec()
+    expect(detail.provider).toBe(provider)
+    expect(detail.info.rdns).toEqual("com.coinbase.wallet")
+    expect(detail.info.uuid).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/)
+
+    window.dispatchEvent(new CustomEvent("eip6963:requestProvider"))
+    expect(announcedBySpec().length).toEqual(2)
+    expect(announcedBySpec()[1]).toBe(detail)
+  })
+
+  it("announces the providers of a WalletLink with the same uuid", function() {
+    const walletLink = makeWalletLink()
+    makeProvider(walletLink)
+    makeProvider(walletLink)
+    makeProvider(makeWalletLink())
+
+    const [first, second, other] = announcedBySpec().map(detail => detail.info.uuid)
+    expect(second).toEqual(first)
+    expect(other).not.toEqual(first)
+  })
+
+  it("stops announcing destroyed providers", function() {
+    const walletLink = makeWalletLink()
+    const first = makeProvider(walletLink)
+    const second = makeProvider(walletLink)
+
+    first.destroy()
+    announced = []
+    window.dispatchEvent(new CustomEvent("eip6963:requestProvider"))
+    expect(announcedBySpec().map(detail => detail.provider)).toEqual([second])
+
+    second.destroy()
+    window.dispatchEvent(new CustomEvent("eip6963:requestProvider"))
+    expect(announcedBySpec().length).toEqual(1)
+  })
+
+  it("does not announce providers when disabled", function() {
+    makeProvider(makeWalletLink({ announceProvider: false }))
+    window.dispatchEvent(new CustomEvent("eip6963:requestProvider"))
+
+    expect(announcedBySpec()).toEqual([])
+  })
+})
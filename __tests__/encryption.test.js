@@ -0,0 +1,57 @@
+const {
+  decryptWithSecretKey,
+  encryptForPublicKey,
+  encryptionPublicKeyFromSecretKey,
+  parseEncryptedData
+} = require("../build/npm/dist/lib/encryption")
+
+// example from eth-sig-util
+const SECRET_KEY = Buffer.from(
+  "7e5374ec2ef0d91761a6e72fdf8f6ac665519bfdf6da0a2329cf0d804514b816",
+  "hex"
+)
+const PUBLIC_KEY = "C5YMNdqE4kLgxQhJO1MfuQcHP5hjVSXzamzd/TxlR0U="
+const ENCRYPTED_DATA = {
+  version: "x25519-xsalsa20-poly1305",
+  nonce: "1dvWO7uOnBnO7iNDJ9kO9pTasLuKNlej",
+  ephemPublicKey: "FBH1/pAEHOOW14Lu3FWkgV3qOEcuL78Zy+qW1RwzMXQ=",
+  ciphertext: "f8kBcl/NCyf3sybfbwAKk/np2Bzt9lRVkZejr6uh5FgnNlH/ic62DZzy"
+}
+
+describe("encryption tests", function () {
+  it("is compatible with eth-sig-util", function () {
+    expect(encryptionPublicKeyFromSecretKey(SECRET_KEY)).toEqual(PUBLIC_KEY)
+    expect(decryptWithSecretKey(ENCRYPTED_DATA, SECRET_KEY)).toEqual(
+      "My name is Satoshi Buterin"
+    )
+  })
+
+  it("encrypts for a public key", function () {
+    const message = "a message longer than one salsa20 block ".repeat(3)
+    const encrypted = encryptForPublicKey(PUBLIC_KEY, message)
+
+    expect(encrypted.version).toEqual("x25519-xsalsa20-poly1305")
+    expect(encrypted.ephemPublicKey).not.toEqual(
+      encryptForPublicKey(PUBLIC_KEY, message).ephemPublicKey
+    )
+    expect(decryptWithSecretKey(encrypted, SECRET_KEY)).toEqual(message)
+  })
+
+  it("rejects tampered or malformed data", function () {
+    const ciphertext = Buffer.from(ENCRYPTED_DATA.ciphertext, "base64")
+    ciphertext[20] ^= 1
+    const tampered = {
+      ...ENCRYPTED_DATA,
+      ciphertext: ciphertext.toString("base64")
+    }
+
+    expect(() => decryptWithSecretKey(tampered, SECRET_KEY)).toThrow()
+    expect(() => parseEncryptedData(Buffer.from("not json"))).toThrow()
+    expect(() =>
+      parseEncryptedData(Buffer.from(JSON.stringify({ version: "x25519" })))
+    ).toThrow()
+    expect(
+      parseEncryptedData(Buffer.from(JSON.stringify(ENCRYPTED_DATA)))
+    ).toEqual(ENCRYPTED_DATA)
+  })
+})
@@ -0,0 +1,116 @@
+const BN = require("bn.js")
+const {
+  decodeSignedTransaction,
+  encodeSignedTransaction,
+  hashSignedTransaction,
+  recoverTransactionSender
+} = require("../build/npm/dist/lib/EthereumTransaction")
+const { decodeRLP, encodeRLP } = require("../build/npm/dist/lib/rlp")
+const { makeProvider, makeRelay } = require("./providerFixtures")
+
+// example from EIP-155, signed with private key 0x4646...46
+const EIP155_TRANSACTION = Buffer.from(
+  "f86c098504a817c800825208943535353535353535353535353535353535353535880de0b6b3a76400008025a028ef61340bd939bc2195fe537567866003e1a15d3c71ff63e1590620aa636276a067cbe9d8997f761aecb703304b3800ccf555c9f3dc64214b297fb1966a3b6d83",
+  "hex"
+)
+
+describe("RLP tests", function() {
+  it("round-trips nested lists", function() {
+    const item = [Buffer.from("cat"), [Buffer.alloc(0), Buffer.from([0x7f])], Buffer.alloc(60, 1)]
+    expect(decodeRLP(encodeRLP(item))).toEqual(item)
+  })
+
+  it("rejects non-canonical encodings", function() {
+    expect(() => decodeRLP(Buffer.from("8105", "hex"))).toThrow()
+    expect(() => decodeRLP(Buffer.from("c20102ff", "hex"))).toThrow()
+  })
+})
+
+describe("signed transaction tests", function() {
+  it("decodes EIP-155 transactions and recovers the sender", function() {
+    const tx = decodeSignedTransaction(EIP155_TRANSACTION)
+
+    expect(tx.type).toEqual(0)
+    expect(tx.chainId).toEqual(1)
+    expect(tx.nonce).toEqual(9)
+    expect(tx.to).toEqual("0x" + "35".repeat(20))
+    expect(tx.value.toString()).toEqual("1000000000000000000")
+    expect(recoverTransactionSender(tx)).toEqual(
+      "0x9d8a62f656a8d1615c1294fd71e9cfb3e4855a4f"
+    )
+    expect(encodeSignedTransaction(tx)).toEqual(EIP155_TRANSACTION)
+    expect(hashSignedTransaction(EIP155_TRANSACTION)).toMatch(/^0x[0-9a-f]{64}$/)
+  })
+
+  it("round-trips EIP-1559 transactions with access lists", function() {
+    const tx = {
+      type: 2,
+      chainId: 10,
+      nonce: 0,
+      gasPrice: null,
+      maxPriorityFeePerGas: new BN(1),
+      maxFeePerGas: new BN(100),
+      gasLimit: new BN(50000),
+      to: null,
+      value: new BN(0),
+      data: Buffer.from("6000", "hex"),
+      accessList: [
+        { address: "0x" + "12".repeat(20), storageKeys: ["0x" + "00".repeat(32)] }
+      ],
+      yParity: 1,
+      r: new BN(3),
+      s: new BN(4)
+    }
+    const raw = encodeSignedTransaction(tx)
+    const decoded = decodeSignedTransaction(raw)
+
+    expect(raw[0]).toEqual(2)
+    expect(decoded.chainId).toEqual(10)
+    expect(decoded.to).toBeNull()
+    expect(decoded.maxFeePerGas.toNumber()).toEqual(100)
+    expect(decoded.accessList).toEqual(tx.accessList)
+    expect(encodeSignedTransaction(decoded)).toEqual(raw)
+  })
+
+  it("rejects unsupported transaction types", function() {
+    expect(() => decodeSignedTransaction(Buffer.from("03c0", "hex"))).toThrow()
+  })
+})
+
+describe("raw transaction submission tests", function() {
+  const hash = hashSignedTransaction(EIP155_TRANSACTION)
+
+  // fake relay whose wallet reports the given hash for submitted transactions
+  function makeProviderAndRelay(walletHash) {
+    const relay = makeRelay([], {
+      submitted: [],
+      submitEthereumTransaction(signedTransaction, chainId) {
+        relay.submitted.push([signedTransaction, chainId])
+        return { promise: Promise.resolve({ result: walletHash }), cancel() {} }
+      }
+    })
+    return { provider: makeProvider(relay), relay }
+  }
+
+  const sendRaw = provider =>
+    provider.request({
+      method: "eth_sendRawTransaction",
+      params: ["0x" + EIP155_TRANSACTION.toString("hex")]
+    })
+
+  it("returns the hash of the transaction the wallet submitted", async function() {
+    const { provider, relay } = makeProviderAndRelay(hash.toUpperCase().replace("0X", "0x"))
+
+    expect(await sendRaw(provider)).toEqual(hash)
+    expect(relay.submitted).toEqual([[EIP155_TRANSACTION, 1]])
+  })
+
+  it("fails when the wallet reports the hash of another transaction", async function() {
+    const walletHash = "0x" + "ab".repeat(32)
+    const { provider } = makeProviderAndRelay(walletHash)
+
+    await expectAsync(sendRaw(provider)).toBeRejectedWith(
+      jasmine.objectContaining({ code: -32603, data: { hash, walletHash } })
+    )
+  })
+})
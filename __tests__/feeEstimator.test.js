@@ -0,0 +1,82 @@
+const BN = require("bn.js")
+const { FeeEstimator } = require("../build/npm/dist/provider/FeeEstimator")
+
+const gwei = n => new BN(n).mul(new BN(10).pow(new BN(9)))
+const toHex = bn => "0x" + bn.toString(16)
+
+function makeNode(results) {
+  const requests = []
+  const request = (method, params) => {
+    requests.push(method)
+    if (!(method in results)) {
+      return Promise.reject(new Error(`unexpected method ${method}`))
+    }
+    return Promise.resolve(results[method])
+  }
+  return { requests, request }
+}
+
+function makeTransaction(fields = {}) {
+  return {
+    fromAddress: "0x" + "11".repeat(20),
+    toAddress: "0x" + "22".repeat(20),
+    weiValue: new BN(0),
+    data: Buffer.alloc(0),
+    nonce: null,
+    gasPriceInWei: null,
+    maxFeePerGas: null,
+    maxPriorityFeePerGas: null,
+    gasLimit: null,
+    chainId: 1,
+    type: null,
+    accessList: null,
+    ...fields
+  }
+}
+
+describe("fee estimator tests", function() {
+  it("estimates EIP-1559 fees from the fee history", async function() {
+    const node = makeNode({
+      eth_feeHistory: {
+        baseFeePerGas: [toHex(gwei(10)), toHex(gwei(20))],
+        reward: [
+          [toHex(gwei(1)), toHex(gwei(2)), toHex(gwei(3))],
+          [toHex(gwei(1)), toHex(gwei(4)), toHex(gwei(5))],
+          [toHex(gwei(1)), toHex(gwei(2)), toHex(gwei(9))]
+        ]
+      }
+    })
+    const { normal, fast } = await new FeeEstimator(node.request).estimateFees(1)
+
+    expect(normal.maxPriorityFeePerGas.toString()).toEqual(gwei(2).toString())
+    expect(normal.maxFeePerGas.toString()).toEqual(gwei(42).toString())
+    expect(fast.maxPriorityFeePerGas.toString()).toEqual(gwei(5).toString())
+    expect(normal.gasPrice).toBeNull()
+  })
+
+  it("uses the gas price on legacy chains", async function() {
+    const node = makeNode({ eth_gasPrice: toHex(gwei(100)) })
+    const { slow, fast } = await new FeeEstimator(node.request).estimateFees(56)
+
+    expect(node.requests).toEqual(["eth_gasPrice"])
+    expect(slow.gasPrice.toString()).toEqual(gwei(90).toString())
+    expect(fast.gasPrice.toString()).toEqual(gwei(125).toString())
+    expect(fast.maxFeePerGas).toBeNull()
+  })
+
+  it("fills in only missing fields", async function() {
+    const node = makeNode({
+      eth_estimateGas: "0x5208",
+      eth_getTransactionCount: "0x7"
+    })
+    const tx = await new FeeEstimator(node.request).fillTransaction(
+      makeTransaction({ gasPriceInWei: gwei(1) }),
+      "normal"
+    )
+
+    expect(tx.gasLimit.toNumber()).toEqual(21000)
+    expect(tx.nonce).toEqual(7)
+    expect(tx.gasPriceInWei.toString()).toEqual(gwei(1).toString())
+    expect(tx.maxFeePerGas).toBeNull()
+  })
+})
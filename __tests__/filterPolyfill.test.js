@@ -0,0 +1,247 @@
+const { FilterPolyfill } = require("../build/npm/dist/provider/FilterPolyfill")
+
+const toHex = n => "0x" + n.toString(16)
+
+// fake Web3Provider serving a chain that can be forked
+function makeChain(length) {
+  const chain = {
+    blocks: [],
+    transactions: {},
+    // eth_getLogs requests received, and the largest range the node serves
+    logRequests: [],
+    maxLogRange: Infinity,
+    logsError: null,
+    // numbers of blocks the node does not return yet
+    unavailableBlocks: [],
+    fork(fromBlock, length, fork) {
+      chain.blocks = chain.blocks.slice(0, fromBlock)
+      for (let n = fromBlock; n < length; n++) {
+        chain.blocks.push(makeBlock(n, fork))
+      }
+    },
+    sendAsync(request, callback) {
+      const respond = result => callback(null, { jsonrpc: "2.0", id: request.id, result })
+      switch (request.method) {
+        case "eth_blockNumber":
+          return respond(toHex(chain.blocks.length - 1))
+        case "eth_getBlockByNumber": {
+          const number = parseInt(request.params[0], 16)
+          const block = chain.unavailableBlocks.includes(number) ? null : chain.blocks[number]
+          return respond(block ? { number: toHex(block.number), hash: block.hash } : null)
+        }
+        case "eth_getTransactionByHash":
+          return respond(chain.transactions[request.params[0]] || null)
+        case "eth_getLogs": {
+          chain.logRequests.push(request)
+          const { fromBlock, toBlock } = request.params[0]
+          const error =
+            parseInt(toBlock, 16) - parseInt(fromBlock, 16) + 1 > chain.maxLogRange
+              ? { code: -32005, message: "query returned more than 10000 results" }
+              : chain.logsError
+          if (error) {
+            return callback(null, { jsonrpc: "2.0", id: request.id, error })
+          }
+          const logs = chain.blocks
+            .slice(parseInt(fromBlock, 16), parseInt(toBlock, 16) + 1)
+            .map(block => block.log)
+          return respond(logs)
+        }
+      }
+      callback(new Error(`unexpected method ${request.method}`), null)
+    }
+  }
+  chain.fork(0, length, "a")
+  return chain
+}
+
+function makeBlock(number, fork) {
+  const hash = "0x" + fork.repeat(2) + number.toString(16).padStart(62, "0")
+  return {
+    number,
+    hash,
+    log: {
+      blockNumber: toHex(number),
+      blockHash: hash,
+      logIndex: "0x0",
+      data: `${fork}${number}`
+    }
+  }
+}
+
+describe("filter polyfill reorg tests", function() {
+  let chain
+  let filterPolyfill
+
+  beforeEach(function() {
+    chain = makeChain(10)
+    filterPolyfill = new FilterPolyfill(chain)
+  })
+
+  afterEach(function() {
+    filterPolyfill.destroy()
+  })
+
+  it("reports logs once when the chain is not reorganized", async function() {
+    const id = await filterPolyfill.newFilter({ fromBlock: "latest" })
+
+    chain.fork(10, 12, "a")
+    const first = await filterPolyfill.getFilterChanges(id)
+    expect(first.result.map(log => log.data)).toEqual(["a9", "a10", "a11"])
+
+    chain.fork(12, 13, "a")
+    const second = await filterPolyfill.getFilterChanges(id)
+    expect(second.result.map(log => log.data)).toEqual(["a12"])
+  })
+
+  it("reports logs from reorganized blocks as removed", async function() {
+    const id = await filterPolyfill.newFilter({ fromBlock: "latest" })
+
+    chain.fork(10, 12, "a")
+    await filterPolyfill.getFilterChanges(id)
+
+    // blocks 10 and 11 are replaced, and the chain grows by one block
+    chain.fork(10, 13, "b")
+    const { result } = await filterPolyfill.getFilterChanges(id)
+
+    expect(result.map(log => [log.data, !!log.removed])).toEqual([
+      ["a10", true],
+      ["a11", true],
+      ["b10", false],
+      ["b11", false],
+      ["b12", false]
+    ])
+  })
+
+  it("reports the new blocks of a reorganized chain to block filters", async function() {
+    const id = await filterPolyfill.newBlockFilter()
+
+    chain.fork(10, 12, "a")
+    await filterPolyfill.getFilterChanges(id)
+
+    chain.fork(11, 12, "b")
+    const { result } = await filterPolyfill.getFilterChanges(id)
+
+    expect(result).toEqual([chain.blocks[11].hash.slice(2)])
+  })
+
+  it("reports blocks from the first one the node does not return on the next call", async function() {
+    const id = await filterPolyfill.newBlockFilter()
+
+    chain.fork(10, 13, "a")
+    chain.unavailableBlocks = [11]
+    const first = await filterPolyfill.getFilterChanges(id)
+    expect(first.result).toEqual([chain.blocks[9].hash.slice(2), chain.blocks[10].hash.slice(2)])
+
+    chain.unavailableBlocks = []
+    const second = await filterPolyfill.getFilterChanges(id)
+    expect(second.result).toEqual([chain.blocks[11].hash.slice(2), chain.blocks[12].hash.slice(2)])
+  })
+})
+
+describe("filter polyfill log range tests", function() {
+  let chain
+  let filterPolyfill
+
+  const ranges = () =>
+    chain.logRequests.map(({ params: [{ fromBlock, toBlock }] }) => [
+      parseInt(fromBlock, 16),
+      parseInt(toBlock, 16)
+    ])
+
+  beforeEach(function() {
+    chain = makeChain(40)
+    filterPolyfill = new FilterPolyfill(chain)
+  })
+
+  afterEach(function() {
+    filterPolyfill.destroy()
+  })
+
+  it("splits ranges the node rejects, and keeps logs in order", async function() {
+    chain.maxLogRange = 10
+    const { result } = await filterPolyfill.getLogs({ fromBlock: "0x0", toBlock: "0x27" })
+
+    expect(result.map(log => log.data)).toEqual(chain.blocks.map(block => block.log.data))
+    expect(ranges()).toEqual([
+      [0, 39],
+      [0, 19],
+      [0, 9],
+      [10, 19],
+      [20, 39],
+      [20, 29],
+      [30, 39]
+    ])
+  })
+
+  it("remembers the largest range the node served", async function() {
+    chain.maxLogRange = 10
+    await filterPolyfill.getLogs({ fromBlock: "0x0", toBlock: "0x27" })
+    chain.logRequests = []
+
+    const { result } = await filterPolyfill.getLogs({ fromBlock: "0x5", toBlock: "0x1d" })
+
+    expect(result.map(log => log.data)).toEqual(
+      chain.blocks.slice(5, 30).map(block => block.log.data)
+    )
+    expect(ranges()).toEqual([
+      [5, 14],
+      [15, 24],
+      [25, 29]
+    ])
+  })
+
+  it("rethrows errors other than limit errors", async function() {
+    chain.logsError = { code: -32000, message: "header not found" }
+
+    await expectAsync(
+      filterPolyfill.getLogs({ fromBlock: "0x0", toBlock: "0x27" })
+    ).toBeRejectedWith(jasmine.objectContaining({ code: -32000 }))
+    expect(ranges()).toEqual([[0, 39]])
+  })
+
+  it("tags the requests it sends for a single range", async function() {
+    await filterPolyfill.getLogs({ fromBlock: "0x0", toBlock: "0x27" })
+    const [request] = chain.logRequests
+
+    expect(filterPolyfill.isLogRangeRequest(request)).toBe(true)
+    expect(filterPolyfill.isLogRangeRequest({ ...request })).toBe(true)
+    expect(
+      filterPolyfill.isLogRangeRequest({
+        jsonrpc: "2.0",
+        id: 1,
+        method: "eth_getLogs",
+        params: request.params
+      })
+    ).toBe(false)
+  })
+})
+
+describe("filter polyfill pending transaction tests", function() {
+  const hash = "0x" + "ab".repeat(32)
+  let chain
+  let filterPolyfill
+
+  beforeEach(function() {
+    chain = makeChain(10)
+    filterPolyfill = new FilterPolyfill(chain)
+  })
+
+  afterEach(function() {
+    filterPolyfill.destroy()
+  })
+
+  it("reports submitted transactions once until they are mined", async function() {
+    const id = await filterPolyfill.newPendingTransactionFilter()
+
+    filterPolyfill.addPendingTransaction(hash)
+    chain.transactions[hash] = { hash, blockHash: null }
+    expect((await filterPolyfill.getFilterChanges(id)).result).toEqual([hash])
+    expect((await filterPolyfill.getFilterChanges(id)).result).toEqual([])
+
+    chain.transactions[hash] = { hash, blockHash: chain.blocks[9].hash }
+    expect((await filterPolyfill.getFilterChanges(id)).result).toEqual([])
+
+    const newId = await filterPolyfill.newPendingTransactionFilter()
+    expect((await filterPolyfill.getFilterChanges(newId)).result).toEqual([])
+  })
+})
@@ -0,0 +1,48 @@
+const { ScopedLocalStorage } = require("../build/npm/dist/lib/ScopedLocalStorage")
+const { WalletLinkProvider } = require("../build/npm/dist/provider/WalletLinkProvider")
+const {
+  WalletLinkRelayEventManager
+} = require("../build/npm/dist/relay/WalletLinkRelayEventManager")
+
+const NODE_URL = "https://mainnet.infura.io/v3/INFURA_API_KEY"
+
+// fake relay of a wallet that links the given accounts, with the methods the
+// test needs added to it. pushAccounts(accounts) reports new accounts the way
+// the wallet does, once the provider has set up the relay.
+function makeRelay(accounts = [], methods = {}) {
+  const relay = {
+    session: { id: "session-id" },
+    pushAccounts: null,
+    setAccountsCallback(callback) {
+      relay.pushAccounts = callback
+    },
+    setChainCallback() {},
+    requestEthereumAccounts() {
+      return { promise: Promise.resolve({ result: accounts }), cancel() {} }
+    },
+    ...methods
+  }
+  return relay
+}
+
+// provider on chain 1 using the relay, with storage of its own unless given
+function makeProvider(relay, options = {}) {
+  return new WalletLinkProvider({
+    jsonRpcUrl: NODE_URL,
+    chainId: 1,
+    overrideIsMetaMask: false,
+    relayProvider: () => Promise.resolve(relay),
+    relayEventManager: new WalletLinkRelayEventManager(),
+    storage: new ScopedLocalStorage("provider-test-" + Math.random()),
+    ...options
+  })
+}
+
+// provider the wallet has linked the relay's accounts to
+async function makeLinkedProvider(relay, options = {}) {
+  const provider = makeProvider(relay, options)
+  await provider.request({ method: "eth_requestAccounts" })
+  return provider
+}
+
+module.exports = { NODE_URL, makeRelay, makeProvider, makeLinkedProvider }
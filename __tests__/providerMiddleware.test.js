@@ -0,0 +1,127 @@
+const fixtures = require("./providerFixtures")
+
+const ADDRESS = "0xfadafce89ea2221fa33005640acf2c923312f2b9"
+
+describe("provider middleware tests", function() {
+  let providers
+
+  function makeProvider(relay = fixtures.makeRelay([ADDRESS])) {
+    const provider = fixtures.makeProvider(relay)
+    providers.push(provider)
+    return provider
+  }
+
+  async function makeLinkedProvider() {
+    const provider = makeProvider()
+    await provider.request({ method: "eth_requestAccounts" })
+    return provider
+  }
+
+  beforeEach(function() {
+    providers = []
+  })
+
+  afterEach(function() {
+    providers.forEach(provider => provider.destroy())
+  })
+
+  it("ends requests before the built-in handlers", async function() {
+    const provider = makeProvider()
+    provider.addMiddleware((req, res, next, end) => {
+      if (req.method !== "eth_blockNumber") {
+        return next()
+      }
+      res.result = "0x10"
+      end()
+    })
+
+    expect(await provider.request({ method: "eth_blockNumber" })).toEqual("0x10")
+    expect(await provider.request({ method: "eth_chainId" })).toEqual("0x1")
+  })
+
+  it("sees responses on the way back and rejects with its errors", async function() {
+    const provider = await makeLinkedProvider()
+    const seen = []
+    const remove = provider.addMiddleware((req, res, next, end) => {
+      if (req.method === "eth_sign") {
+        return end(new Error("eth_sign is disabled"))
+      }
+      next(done => {
+        seen.push([req.method, res.result])
+        done()
+      })
+    })
+
+    expect(await provider.request({ method: "eth_accounts" })).toEqual([ADDRESS])
+    expect(seen).toEqual([["eth_accounts", [ADDRESS]]])
+    await expectAsync(
+      provider.request({ method: "eth_sign", params: [ADDRESS, "0x00"] })
+    ).toBeRejectedWithError("eth_sign is disabled")
+
+    remove()
+    await provider.request({ method: "eth_accounts" })
+    expect(seen.length).toEqual(1)
+  })
+
+  it("does not answer synchronously around middlewares", function() {
+    const provider = makeProvider()
+    const request = { jsonrpc: "2.0", id: 1, method: "eth_chainId", params: [] }
+    expect(provider.send(request).result).toEqual("0x1")
+
+    const remove = provider.addMiddleware((req, res, next) => next())
+    expect(() => provider.send(request)).toThrowError(/synchronously/)
+    expect(() => provider.send([request])).toThrowError(/synchronously/)
+
+    remove()
+    expect(provider.send(request).result).toEqual("0x1")
+  })
+
+  it("answers synchronously around middlewares that skip synchronous requests", async function() {
+    const provider = makeProvider()
+    const request = { jsonrpc: "2.0", id: 1, method: "eth_chainId", params: [] }
+    const seen = []
+    provider.addMiddleware(
+      (req, res, next) => {
+        seen.push(req.method)
+        next()
+      },
+      { skipSynchronousRequests: true }
+    )
+
+    expect(provider.send(request).result).toEqual("0x1")
+    expect(provider.send({ ...request, method: "eth_accounts" }).result).toEqual([])
+    expect(seen).toEqual([])
+    expect(await provider.request({ method: "eth_chainId" })).toEqual("0x1")
+    expect(seen).toEqual(["eth_chainId"])
+
+    const remove = provider.addMiddleware((req, res, next) => next())
+    expect(() => provider.send(request)).toThrowError(/synchronously/)
+    remove()
+    expect(provider.send(request).result).toEqual("0x1")
+  })
+
+  it("passes on the errors of the node to sendAsync callers", function(done) {
+    const provider = makeProvider(
+      fixtures.makeRelay([], {
+        makeEthereumJSONRPCRequest: req =>
+          Promise.resolve({
+            jsonrpc: "2.0",
+            id: req.id,
+            error: { code: -32000, message: "header not found" }
+          })
+      })
+    )
+    provider.addMiddleware((req, res, next) => next())
+
+    provider.sendAsync(
+      { jsonrpc: "2.0", id: 1, method: "eth_getBlockByNumber", params: ["0x1", false] },
+      (err, res) => {
+        expect(err).toEqual(
+          jasmine.objectContaining({ code: -32000, message: "header not found" })
+        )
+        expect(res).toBeNull()
+        done()
+      }
+    )
+  })
+})
@@ -0,0 +1,137 @@
+const { makeLinkedProvider, makeRelay } = require("./providerFixtures")
+
+const FROM = "0x" + "11".repeat(20)
+const TO = "0x" + "22".repeat(20)
+const HASH = "0x" + "ab".repeat(32)
+const GWEI = 1000000000
+const toHex = n => "0x" + n.toString(16)
+
+// fake relay linking FROM, whose node knows of a single pending transaction
+function makeNodeRelay(pending, gasPrice = GWEI) {
+  const relay = makeRelay([FROM], {
+    nodeRequests: [],
+    submitted: [],
+    previews: [],
+    makeEthereumJSONRPCRequest(req) {
+      relay.nodeRequests.push(req.method)
+      const results = {
+        eth_getTransactionByHash: req.params[0] === HASH ? pending : null,
+        eth_gasPrice: toHex(gasPrice),
+        eth_call: "0x"
+      }
+      return Promise.resolve({ jsonrpc: "2.0", id: req.id, result: results[req.method] })
+    },
+    signAndSubmitEthereumTransaction(tx) {
+      relay.submitted.push(tx)
+      return { promise: Promise.resolve({ result: "0x" + "cd".repeat(32) }), cancel() {} }
+    },
+    showTransactionPreview(preview) {
+      relay.previews.push(preview)
+      return () => {}
+    }
+  })
+  return relay
+}
+
+const eip1559Transaction = {
+  hash: HASH,
+  from: FROM,
+  to: TO,
+  value: "0x64",
+  input: "0x1234",
+  nonce: "0x7",
+  gas: "0x5208",
+  type: "0x2",
+  maxFeePerGas: toHex(100 * GWEI),
+  maxPriorityFeePerGas: toHex(2 * GWEI),
+  blockHash: null
+}
+
+const legacyTransaction = {
+  hash: HASH,
+  from: FROM,
+  to: TO,
+  value: "0x64",
+  input: "0x",
+  nonce: "0x7",
+  gas: "0xc350",
+  type: "0x0",
+  gasPrice: toHex(10 * GWEI),
+  blockHash: null
+}
+
+describe("transaction replacement tests", function() {
+  it("speeds up a transaction by bumping its fees by the given factor", async function() {
+    const relay = makeNodeRelay(eip1559Transaction)
+    const provider = await makeLinkedProvider(relay)
+
+    await provider.speedUpTransaction(HASH)
+    await provider.speedUpTransaction(HASH, 1.5)
+
+    const [minimum, bumped] = relay.submitted
+    expect(minimum.maxFeePerGas.toString(10)).toEqual(String(110 * GWEI))
+    expect(minimum.maxPriorityFeePerGas.toString(10)).toEqual(String(2.2 * GWEI))
+    expect(bumped.maxFeePerGas.toString(10)).toEqual(String(150 * GWEI))
+    expect(minimum.nonce).toEqual(7)
+    expect(minimum.toAddress).toEqual(TO)
+    expect(minimum.weiValue.toString(10)).toEqual("100")
+    expect(minimum.data.toString("hex")).toEqual("1234")
+    expect(minimum.gasLimit.toString(10)).toEqual("21000")
+  })
+
+  it("cancels a transaction with a transfer of 0 to the sender", async function() {
+    const relay = makeNodeRelay(legacyTransaction)
+    const provider = await makeLinkedProvider(relay)
+
+    await provider.cancelTransaction(HASH)
+
+    const [tx] = relay.submitted
+    expect(tx.toAddress).toEqual(FROM)
+    expect(tx.weiValue.toString(10)).toEqual("0")
+    expect(tx.data.length).toEqual(0)
+    expect(tx.nonce).toEqual(7)
+    expect(tx.gasLimit.toString(10)).toEqual("21000")
+    expect(tx.gasPriceInWei.toString(10)).toEqual(String(11 * GWEI))
+  })
+
+  it("rejects fee bumps nodes would not accept and mined transactions", async function() {
+    const relay = makeNodeRelay({ ...legacyTransaction, blockHash: "0x" + "ef".repeat(32) })
+    const provider = await makeLinkedProvider(relay)
+    const invalidParams = jasmine.objectContaining({ code: -32602 })
+
+    await expectAsync(provider.speedUpTransaction(HASH, 1.09)).toBeRejectedWith(invalidParams)
+    expect(relay.nodeRequests).toEqual([])
+    await expectAsync(provider.speedUpTransaction(HASH)).toBeRejectedWith(invalidParams)
+    await expectAsync(
+      provider.cancelTransaction("0x" + "00".repeat(32))
+    ).toBeRejectedWith(invalidParams)
+    expect(relay.submitted).toEqual([])
+  })
+
+  it("pays the current fees when above the bumped ones, and previews the replacement", async function() {
+    const relay = makeNodeRelay(legacyTransaction, 20 * GWEI)
+    const provider = await makeLinkedProvider(relay, {
+      feeEstimation: "normal",
+      transactionPreview: true
+    })
+
+    // the wallet signs once the preview is shown
+    const signAndSubmit = relay.signAndSubmitEthereumTransaction
+    relay.signAndSubmitEthereumTransaction = tx => ({
+      promise: new Promise(resolve => {
+        relay.showTransactionPreview = preview => {
+          relay.previews.push(preview)
+          resolve(signAndSubmit(tx).promise)
+          return () => {}
+        }
+      }),
+      cancel() {}
+    })
+    await provider.speedUpTransaction(HASH)
+
+    const [tx] = relay.submitted
+    expect(tx.gasPriceInWei.toString(10)).toEqual(String(20 * GWEI))
+    expect(tx.nonce).toEqual(7)
+    expect(relay.previews.length).toEqual(1)
+  })
+})
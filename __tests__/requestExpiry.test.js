@@ -0,0 +1,187 @@
+const { EthereumRpcError } = require("eth-rpc-errors")
+const { EMPTY } = require("rxjs")
+const { ScopedLocalStorage } = require("../build/npm/dist/lib/ScopedLocalStorage")
+const {
+  DEFAULT_REQUEST_TIMEOUT,
+  MAX_REQUEST_TIMEOUT,
+  REQUEST_TIMEOUT_ERROR_CODE,
+  requestTimeout,
+  RequestTimeoutError
+} = require("../build/npm/dist/relay/RequestExpiry")
+const { WalletLinkRelay } = require("../build/npm/dist/relay/WalletLinkRelay")
+const {
+  WalletLinkRelayEventManager
+} = require("../build/npm/dist/relay/WalletLinkRelayEventManager")
+
+describe("request expiry tests", function() {
+  it("picks the timeout of the method, then the default one", function() {
+    expect(requestTimeout({}, "signEthereumMessage")).toEqual(DEFAULT_REQUEST_TIMEOUT)
+    expect(requestTimeout({ default: 1000 }, "signEthereumMessage")).toEqual(1000)
+    expect(
+      requestTimeout({ default: 1000, signEthereumMessage: 5000 }, "signEthereumMessage")
+    ).toEqual(5000)
+  })
+
+  it("only expires account requests given a timeout of their own", function() {
+    expect(requestTimeout({}, "requestEthereumAccounts")).toBeNull()
+    expect(requestTimeout({ default: 1000 }, "requestEthereumAccounts")).toBeNull()
+    expect(
+      requestTimeout({ requestEthereumAccounts: 1000 }, "requestEthereumAccounts")
+    ).toEqual(1000)
+  })
+
+  it("does not expire requests with a timeout of 0 or Infinity, and caps the others", function() {
+    expect(requestTimeout({ default: 0 }, "signEthereumMessage")).toBeNull()
+    expect(requestTimeout({ default: Infinity }, "signEthereumMessage")).toBeNull()
+    expect(requestTimeout({ default: 2 ** 40 }, "signEthereumMessage")).toEqual(
+      MAX_REQUEST_TIMEOUT
+    )
+    expect(MAX_REQUEST_TIMEOUT).toEqual(2 ** 31 - 1)
+  })
+
+  it("rejects with an internal error carrying the method and expiry", function() {
+    const err = new RequestTimeoutError("signEthereumMessage", 1234)
+
+    expect(err).toBeInstanceOf(RequestTimeoutError)
+    expect(err).toBeInstanceOf(EthereumRpcError)
+    expect(REQUEST_TIMEOUT_ERROR_CODE).toEqual(-32603)
+    expect(err.serialize()).toEqual(
+      jasmine.objectContaining({
+        code: REQUEST_TIMEOUT_ERROR_CODE,
+        message: "Request signEthereumMessage expired before the wallet answered it",
+        data: { method: "signEthereumMessage", expiresAt: 1234 }
+      })
+    )
+  })
+
+  it("removes the callbacks of expired requests only", function() {
+    const manager = new WalletLinkRelayEventManager()
+    const callback = () => {}
+    manager.setExpiringCallback("expired", callback, 1000)
+    manager.setExpiringCallback("pending", callback, 3000)
+    manager.setExpiringCallback("answered", callback, 1000)
+    manager.callbacks.delete("answered")
+    manager.callbacks.set("no-expiry", callback)
+
+    expect(manager.removeExpiredCallbacks(2000)).toEqual(["expired"])
+    expect(Array.from(manager.callbacks.keys())).toEqual(["pending", "no-expiry"])
+    expect(manager.removeExpiredCallbacks(3000)).toEqual(["pending"])
+    expect(Array.from(manager.callbacks.keys())).toEqual(["no-expiry"])
+  })
+})
+
+describe("dialog expiry tests", function() {
+  const ADDRESS = "0x" + "11".repeat(20)
+  let ui
+  let relayEventManager
+  let relay
+
+  beforeEach(function() {
+    jasmine.clock().install()
+    jasmine.clock().mockDate()
+    ui = {
+      attach() {},
+      setConnectDisabled() {},
+      isStandalone: () => false,
+      showConnecting: () => ui.hideConnecting,
+      hideConnecting: jasmine.createSpy("hideConnecting"),
+      inlineAccountsResponse: () => true,
+      inlineAddEthereumChain: () => true,
+      inlineSwitchEthereumChain: () => true,
+      inlineWatchAsset: () => true,
+      requestEthereumAccounts() {},
+      hideRequestEthereumAccounts: jasmine.createSpy("hideRequestEthereumAccounts"),
+      addEthereumChain() {},
+      switchEthereumChain() {},
+      watchAsset() {}
+    }
+    relayEventManager = new WalletLinkRelayEventManager()
+    relay = makeRelay({ default: 1000, requestEthereumAccounts: 1000 })
+  })
+
+  afterEach(function() {
+    relay.connection.destroy()
+    jasmine.clock().uninstall()
+  })
+
+  function makeRelay(requestTimeouts) {
+    return new WalletLinkRelay({
+      walletLinkUrl: "https://www.walletlink.org",
+      version: "1",
+      darkMode: false,
+      storage: new ScopedLocalStorage("dialog-expiry-test"),
+      relayEventManager,
+      walletLinkUIConstructor: () => ui,
+      walletLinkAnalytics: { sendEvent() {} },
+      requestTimeouts
+    })
+  }
+
+  // expects the request to be rejected once it expires, and its callback
+  // to be removed
+  async function expectExpiry(method, { promise }) {
+    let settled = false
+    promise.catch(() => {}).then(() => (settled = true))
+    jasmine.clock().tick(999)
+    await Promise.resolve()
+    expect(settled).toBe(false)
+
+    jasmine.clock().tick(1)
+    await expectAsync(promise).toBeRejectedWith(
+      jasmine.objectContaining({
+        code: REQUEST_TIMEOUT_ERROR_CODE,
+        data: { method, expiresAt: Date.now() }
+      })
+    )
+    expect(relayEventManager.callbacks.size).toEqual(0)
+  }
+
+  it("expires account requests", async function() {
+    await expectExpiry("requestEthereumAccounts", relay.requestEthereumAccounts())
+    expect(ui.hideRequestEthereumAccounts).toHaveBeenCalled()
+  })
+
+  it("does not expire requests without a timeout", async function() {
+    relay.connection.destroy()
+    relay = makeRelay({ default: 1000 })
+    // the request is published to the wallet rather than answered inline
+    ui.inlineAccountsResponse = () => false
+    const published = []
+    relay.publishEvent = (event, message) => {
+      published.push(message)
+      return EMPTY
+    }
+
+    let settled = false
+    relay.requestEthereumAccounts().promise.then(() => (settled = true))
+    jasmine.clock().tick(MAX_REQUEST_TIMEOUT)
+    await Promise.resolve()
+
+    expect(settled).toBe(false)
+    expect(published.length).toEqual(1)
+    expect(published[0].expiresAt).toBeUndefined()
+    expect(relayEventManager.callbacks.size).toEqual(1)
+    expect(relayEventManager.removeExpiredCallbacks(Infinity)).toEqual([])
+  })
+
+  it("rejects invalid timeouts", function() {
+    expect(() => makeRelay({ default: -1 })).toThrowError(/Invalid request timeout/)
+    expect(() => makeRelay({ watchAsset: NaN })).toThrowError(/Invalid request timeout/)
+    expect(() => makeRelay({ default: "1000" })).toThrowError(/Invalid request timeout/)
+  })
+
+  it("expires add chain requests", async function() {
+    await expectExpiry(
+      "addEthereumChain",
+      relay.addEthereumChain("0x5", ["https://goerli.example.com"], [], [], "Goerli")
+    )
+  })
+
+  it("expires switch chain requests", async function() {
+    await expectExpiry("switchEthereumChain", relay.switchEthereumChain("0x5"))
+  })
+
+  it("expires watch asset requests", async function() {
+    await expectExpiry("watchAsset", relay.watchAsset("ERC20", ADDRESS, "ABC", 18))
+  })
+})
@@ -0,0 +1,178 @@
+const { ScopedLocalStorage } = require("../build/npm/dist/lib/ScopedLocalStorage")
+const { WalletLinkRelay } = require("../build/npm/dist/relay/WalletLinkRelay")
+const {
+  WalletLinkRelayEventManager
+} = require("../build/npm/dist/relay/WalletLinkRelayEventManager")
+const { makeLinkedProvider, makeRelay } = require("./providerFixtures")
+
+const FROM = "0x" + "11".repeat(20)
+const CALLS = [{ to: "0x" + "22".repeat(20), value: "0x1" }, { to: "0x" + "33".repeat(20) }]
+
+// resolves once pending promise callbacks have run
+async function flush() {
+  for (let i = 0; i < 20; i++) {
+    await Promise.resolve()
+  }
+}
+
+// fake relay linking FROM and answering wallet_getCapabilities with the
+// promise answer returns
+function makeCapabilitiesRelay(answer) {
+  const relay = makeRelay([FROM], {
+    capabilityRequests: 0,
+    canceled: 0,
+    bundles: [],
+    submitted: [],
+    getCapabilities() {
+      relay.capabilityRequests++
+      return { promise: answer(), cancel: () => relay.canceled++ }
+    },
+    sendCalls(from, transactions) {
+      relay.bundles.push(transactions)
+      return { promise: Promise.resolve({ result: "bundle-id" }), cancel() {} }
+    },
+    signAndSubmitEthereumTransaction(tx) {
+      relay.submitted.push(tx)
+      const hash = "0x" + String(relay.submitted.length).padStart(64, "0")
+      return { promise: Promise.resolve({ result: hash }), cancel() {} }
+    },
+    // the node has mined every submitted transaction
+    makeEthereumJSONRPCRequest(req) {
+      const result =
+        req.method === "eth_getTransactionReceipt"
+          ? {
+              logs: [],
+              status: "0x1",
+              blockHash: "0x" + "44".repeat(32),
+              blockNumber: "0x64",
+              gasUsed: "0x5208",
+              transactionHash: req.params[0]
+            }
+          : null
+      return Promise.resolve({ jsonrpc: "2.0", id: req.id, result })
+    }
+  })
+  return relay
+}
+
+function sendCalls(provider) {
+  return provider.request({ method: "wallet_sendCalls", params: [{ from: FROM, calls: CALLS }] })
+}
+
+describe("EIP-5792 tests", function() {
+  afterEach(function() {
+    jasmine.clock().uninstall()
+  })
+
+  it("asks the wallet for its capabilities once per chain and address", async function() {
+    const relay = makeCapabilitiesRelay(() =>
+      Promise.resolve({ result: { "0x1": { atomic: { status: "supported" } } } })
+    )
+    const provider = await makeLinkedProvider(relay)
+
+    expect(await sendCalls(provider)).toEqual({ id: "bundle-id" })
+    expect(await sendCalls(provider)).toEqual({ id: "bundle-id" })
+    expect(
+      await provider.request({ method: "wallet_getCapabilities", params: [FROM] })
+    ).toEqual({ "0x1": { atomic: { status: "supported" } } })
+
+    expect(relay.capabilityRequests).toEqual(1)
+    expect(relay.bundles.length).toEqual(2)
+    expect(relay.submitted).toEqual([])
+    provider.destroy()
+  })
+
+  it("sends calls one at a time if the wallet does not answer in time", async function() {
+    jasmine.clock().install()
+    const relay = makeCapabilitiesRelay(() => new Promise(() => {}))
+    const provider = await makeLinkedProvider(relay)
+
+    const result = sendCalls(provider)
+    await flush()
+    jasmine.clock().tick(5000)
+    const { id } = await result
+
+    expect(relay.canceled).toEqual(1)
+    expect(relay.submitted.length).toEqual(2)
+    expect(relay.bundles).toEqual([])
+    expect(id).toMatch(/^0x[0-9a-f]{64}$/)
+
+    await sendCalls(provider)
+    expect(relay.capabilityRequests).toEqual(1)
+    expect(relay.submitted.length).toEqual(4)
+    provider.destroy()
+  })
+
+  it("falls back to no capabilities if the wallet rejects the request", async function() {
+    const relay = makeCapabilitiesRelay(() => Promise.reject(new Error("Unsupported method")))
+    const provider = await makeLinkedProvider(relay)
+
+    expect(
+      await provider.request({ method: "wallet_getCapabilities", params: [FROM] })
+    ).toEqual({})
+    await expectAsync(
+      provider.request({
+        method: "wallet_sendCalls",
+        params: [{ from: FROM, calls: CALLS, atomicRequired: true }]
+      })
+    ).toBeRejectedWith(jasmine.objectContaining({ code: 5760 }))
+    await expectAsync(
+      provider.request({
+        method: "wallet_sendCalls",
+        params: [{ from: FROM, calls: CALLS, chainId: "0x5" }]
+      })
+    ).toBeRejectedWith(jasmine.objectContaining({ code: 5710 }))
+    expect(relay.capabilityRequests).toEqual(1)
+    provider.destroy()
+  })
+
+  it("reports calls that were not submitted as failed offchain", async function() {
+    const relay = makeCapabilitiesRelay(() => Promise.resolve({ result: {} }))
+    const signAndSubmit = relay.signAndSubmitEthereumTransaction
+    relay.signAndSubmitEthereumTransaction = tx =>
+      relay.submitted.length === 0
+        ? signAndSubmit(tx)
+        : { promise: Promise.reject(new Error("User denied transaction signature")), cancel() {} }
+    const storage = new ScopedLocalStorage("send-calls-test-" + Math.random())
+    const provider = await makeLinkedProvider(relay, { storage })
+
+    const { id } = await sendCalls(provider)
+    const status = await provider.request({ method: "wallet_getCallsStatus", params: [id] })
+    expect(status.status).toEqual(400)
+    expect(status.receipts.map(receipt => receipt.transactionHash)).toEqual([
+      "0x" + "1".padStart(64, "0")
+    ])
+    expect(status.error.message).toEqual("User denied transaction signature")
+    provider.destroy()
+
+    // the bundle outlives the provider
+    const reloaded = await makeLinkedProvider(relay, { storage })
+    expect(
+      await reloaded.request({ method: "wallet_getCallsStatus", params: [id] })
+    ).toEqual(status)
+    reloaded.destroy()
+  })
+
+  it("rejects EIP-5792 requests the extension cannot answer", async function() {
+    const relay = new WalletLinkRelay({
+      walletLinkUrl: "https://www.walletlink.org",
+      version: "1",
+      darkMode: false,
+      storage: new ScopedLocalStorage("send-calls-relay-test"),
+      relayEventManager: new WalletLinkRelayEventManager(),
+      walletLinkUIConstructor: () => ({
+        attach() {},
+        setConnectDisabled() {},
+        isStandalone: () => true
+      }),
+      walletLinkAnalytics: { sendEvent() {} }
+    })
+
+    for (const method of ["getCapabilities", "sendCalls", "getCallsStatus", "showCallsStatus"]) {
+      await expectAsync(relay.sendRequest({ method, params: {} }).promise).toBeRejectedWith(
+        jasmine.objectContaining({ code: 4200 })
+      )
+    }
+    relay.connection.destroy()
+  })
+})
@@ -0,0 +1,266 @@
+const { ScopedLocalStorage } = require("../build/npm/dist/lib/ScopedLocalStorage")
+const aes256gcm = require("../build/npm/dist/relay/aes256gcm")
+const { Session } = require("../build/npm/dist/relay/Session")
+const {
+  deriveSessionKeys,
+  generateHandshakeKeyPair,
+  LINK_PROTOCOL_HANDSHAKE,
+  LINK_PROTOCOL_LEGACY,
+  ratchetKey
+} = require("../build/npm/dist/relay/SessionHandshake")
+
+async function makeLinkedSession(storage) {
+  const session = new Session(storage).save()
+  const publicKey = await session.generateHandshakeKeyPair()
+  const wallet = await generateHandshakeKeyPair()
+  await session.completeHandshake(wallet.publicKey)
+  const walletKeys = await deriveSessionKeys(wallet.privateKey, publicKey, session.id)
+  return { session, walletKeys }
+}
+
+function decrypt(cipherText, key, additionalData) {
+  return aes256gcm.decrypt(cipherText, key, additionalData).toPromise()
+}
+
+async function decryptTagged(session, tagged, key) {
+  const [epoch, id, cipherText] = tagged.split(":")
+  const message = JSON.parse(await decrypt(cipherText, key, `${session.id}:${id}`))
+  return { epoch, id, message }
+}
+
+// a message as the wallet publishes it
+async function walletMessage(session, key, epoch, sequence, fields = {}) {
+  const id = fields.id || `message-${sequence}`
+  const message = { id, sequence, timestamp: Date.now(), ...fields }
+  const cipherText = await aes256gcm.encrypt(
+    JSON.stringify(message),
+    key,
+    `${session.id}:${id}`
+  )
+  return `${epoch}:${id}:${cipherText}`
+}
+
+describe("session handshake tests", function() {
+  it("derives the same keys on both sides", async function() {
+    const dapp = await generateHandshakeKeyPair()
+    const wallet = await generateHandshakeKeyPair()
+
+    const dappKeys = await deriveSessionKeys(dapp.privateKey, wallet.publicKey, "id")
+    const walletKeys = await deriveSessionKeys(wallet.privateKey, dapp.publicKey, "id")
+    const otherSessionKeys = await deriveSessionKeys(dapp.privateKey, wallet.publicKey, "other")
+
+    expect(dappKeys).toEqual(walletKeys)
+    expect(dappKeys.dappKey).toMatch(/^[0-9a-f]{64}$/)
+    expect(dappKeys.dappKey).not.toEqual(dappKeys.walletKey)
+    expect(dappKeys.metadataKey).not.toEqual(dappKeys.walletKey)
+    expect(otherSessionKeys.dappKey).not.toEqual(dappKeys.dappKey)
+  })
+
+  it("switches from the session secret to the derived keys", async function() {
+    const storage = new ScopedLocalStorage("session-handshake-test")
+    const session = new Session(storage).save()
+    const publicKey = await session.generateHandshakeKeyPair()
+
+    expect(session.protocolVersion).toEqual(LINK_PROTOCOL_LEGACY)
+    expect(session.metadataKey).toEqual(session.secret)
+    expect(
+      JSON.parse(await decrypt(await session.encryptMessage("1", { a: 1 }), session.secret))
+    ).toEqual({ a: 1 })
+    expect(publicKey).toMatch(/^04[0-9a-f]{128}$/)
+
+    const wallet = await generateHandshakeKeyPair()
+    await session.completeHandshake(wallet.publicKey)
+    const walletKeys = await deriveSessionKeys(wallet.privateKey, publicKey, session.id)
+
+    expect(session.protocolVersion).toEqual(LINK_PROTOCOL_HANDSHAKE)
+    expect(session.metadataKey).toEqual(walletKeys.metadataKey)
+    const { epoch, id, message } = await decryptTagged(
+      session,
+      await session.encryptMessage("1", { a: 1 }),
+      walletKeys.dappKey
+    )
+    expect(epoch).toEqual("0")
+    expect(id).toEqual("1")
+    expect(message).toEqual({ a: 1, id: "1", sequence: 1, timestamp: jasmine.any(Number) })
+
+    const loaded = Session.load(storage)
+    expect(loaded.protocolVersion).toEqual(LINK_PROTOCOL_HANDSHAKE)
+    expect(session.handshakePublicKey).toBeNull()
+    expect(loaded.handshakePublicKey).toBeNull()
+    expect(storage.getItem("session:handshakeKey")).toBeNull()
+    expect(Object.values(localStorage).join()).not.toContain(wallet.publicKey)
+    expect(loaded.metadataKey).toEqual(walletKeys.metadataKey)
+    storage.clear()
+  })
+
+  it("only accepts wallet public keys encrypted with the session secret", async function() {
+    const session = new Session(new ScopedLocalStorage("session-handshake-test"))
+    const wallet = await generateHandshakeKeyPair()
+    const encrypt = (key, additionalData) =>
+      aes256gcm.encrypt(wallet.publicKey, key, additionalData)
+
+    expect(
+      await session.decryptWalletPublicKey(
+        await encrypt(session.secret, `${session.id}:WalletPublicKey`)
+      )
+    ).toEqual(wallet.publicKey)
+    await expectAsync(session.decryptWalletPublicKey(wallet.publicKey)).toBeRejected()
+    await expectAsync(
+      session.decryptWalletPublicKey(await encrypt(session.secret))
+    ).toBeRejected()
+    await expectAsync(
+      session.decryptWalletPublicKey(
+        await encrypt("11".repeat(32), `${session.id}:WalletPublicKey`)
+      )
+    ).toBeRejected()
+  })
+
+  it("rejects invalid wallet public keys", async function() {
+    const session = new Session(new ScopedLocalStorage("session-handshake-test"))
+    await session.generateHandshakeKeyPair()
+
+    await expectAsync(session.completeHandshake("04" + "00".repeat(64))).toBeRejected()
+    expect(session.protocolVersion).toEqual(LINK_PROTOCOL_LEGACY)
+  })
+})
+
+describe("session key rotation tests", function() {
+  let storage
+
+  beforeEach(function() {
+    storage = new ScopedLocalStorage("session-rotation-test")
+  })
+
+  afterEach(function() {
+    storage.clear()
+  })
+
+  it("rotates the dapp key on demand and after 100 messages", async function() {
+    const { session, walletKeys } = await makeLinkedSession(storage)
+    await session.rotateKeys()
+    const epoch1Key = await ratchetKey(walletKeys.dappKey)
+
+    const { epoch, message } = await decryptTagged(
+      session,
+      await session.encryptMessage("1", {}),
+      epoch1Key
+    )
+    expect(epoch).toEqual("1")
+    expect(message.id).toEqual("1")
+    expect(storage.getItem("session:keys")).not.toContain(walletKeys.dappKey)
+
+    for (let i = 1; i < 100; i++) {
+      await session.encryptMessage(String(i + 1), {})
+    }
+    expect((await session.encryptMessage("101", {})).split(":")[0]).toEqual("2")
+  })
+
+  it("follows the wallet's epochs and decrypts messages in flight", async function() {
+    const { session, walletKeys } = await makeLinkedSession(storage)
+    const epoch1Key = await ratchetKey(walletKeys.walletKey)
+    const epoch2Key = await ratchetKey(epoch1Key)
+    const inFlight = await walletMessage(session, epoch1Key, 1, 1)
+
+    expect(
+      (await session.decryptMessage(await walletMessage(session, epoch2Key, 2, 2))).id
+    ).toEqual("message-2")
+    expect((await session.decryptMessage(inFlight)).id).toEqual("message-1")
+    expect(storage.getItem("session:keys")).toContain(epoch2Key)
+    expect(storage.getItem("session:keys")).not.toContain(epoch1Key)
+
+    // a fresh page only has the current epoch's key
+    await expectAsync(Session.load(storage).decryptMessage(inFlight)).toBeRejected()
+  })
+
+  it("does not move to epochs of messages that fail to decrypt", async function() {
+    const { session, walletKeys } = await makeLinkedSession(storage)
+    const forged = await walletMessage(session, walletKeys.walletKey, 5, 1)
+
+    await expectAsync(session.decryptMessage(forged)).toBeRejected()
+    await expectAsync(session.decryptMessage("untagged")).toBeRejected()
+    expect(
+      (await session.decryptMessage(await walletMessage(session, walletKeys.walletKey, 0, 1)))
+        .sequence
+    ).toEqual(1)
+  })
+})
+
+describe("session replay protection tests", function() {
+  let storage
+
+  beforeEach(function() {
+    storage = new ScopedLocalStorage("session-replay-test")
+  })
+
+  afterEach(function() {
+    storage.clear()
+  })
+
+  it("rejects messages it has already accepted", async function() {
+    const { session, walletKeys } = await makeLinkedSession(storage)
+    const key = walletKeys.walletKey
+    const first = await walletMessage(session, key, 0, 1)
+    const third = await walletMessage(session, key, 0, 3)
+
+    await session.decryptMessage(third)
+    await session.decryptMessage(first)
+    await expectAsync(session.decryptMessage(first)).toBeRejected()
+    await expectAsync(session.decryptMessage(third)).toBeRejected()
+    await expectAsync(
+      session.decryptMessage(await walletMessage(session, key, 0, 3, { id: "other" }))
+    ).toBeRejected()
+
+    // a fresh page only accepts messages after the ones accepted before
+    const loaded = Session.load(storage)
+    await expectAsync(
+      loaded.decryptMessage(await walletMessage(session, key, 0, 2))
+    ).toBeRejected()
+    expect((await loaded.decryptMessage(await walletMessage(session, key, 0, 4))).sequence)
+      .toEqual(4)
+  })
+
+  it("only rejects messages by sequence number, not by timestamp", async function() {
+    const { session, walletKeys } = await makeLinkedSession(storage)
+    const key = walletKeys.walletKey
+    const late = await walletMessage(session, key, 0, 1)
+
+    await session.decryptMessage(await walletMessage(session, key, 0, 100))
+    await expectAsync(session.decryptMessage(late)).toBeRejected()
+    await expectAsync(
+      session.decryptMessage(await walletMessage(session, key, 0, 102, { sequence: "102" }))
+    ).toBeRejected()
+    expect((await session.decryptMessage(await walletMessage(session, key, 0, 101))).sequence)
+      .toEqual(101)
+
+    // answers to requests made long ago, or from a wallet whose clock is off
+    const old = await walletMessage(session, key, 0, 102, {
+      timestamp: Date.now() - 9 * 60 * 1000
+    })
+    expect((await session.decryptMessage(old)).sequence).toEqual(102)
+  })
+
+  it("authenticates the message id and session id", async function() {
+    const { session, walletKeys } = await makeLinkedSession(storage)
+    const [epoch, , cipherText] = (
+      await walletMessage(session, walletKeys.walletKey, 0, 1)
+    ).split(":")
+    const otherSession = await aes256gcm.encrypt(
+      JSON.stringify({ id: "1", sequence: 2, timestamp: Date.now() }),
+      walletKeys.walletKey,
+      "other-session:1"
+    )
+
+    await expectAsync(
+      session.decryptMessage(`${epoch}:other:${cipherText}`)
+    ).toBeRejected()
+    await expectAsync(session.decryptMessage(`0:1:${otherSession}`)).toBeRejected()
+  })
+
+  it("rejects copies of legacy wallets' messages", async function() {
+    const session = new Session(storage)
+    const cipherText = await aes256gcm.encrypt(JSON.stringify({ a: 1 }), session.secret)
+
+    expect(await session.decryptMessage(cipherText)).toEqual({ a: 1 })
+    await expectAsync(session.decryptMessage(cipherText)).toBeRejected()
+  })
+})
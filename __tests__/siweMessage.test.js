@@ -0,0 +1,70 @@
+const {
+  formatSiweMessage,
+  parseSiweMessage,
+  validateSiweMessage
+} = require("../build/npm/dist/lib/SiweMessage")
+
+describe("sign-in with ethereum message tests", function() {
+  const message = {
+    domain: "example.com",
+    address: "0xFadAFCE89EA2221fa33005640Acf2C923312F2b9",
+    statement: "Sign in to My Awesome DApp",
+    uri: "https://example.com/login",
+    version: "1",
+    chainId: 1,
+    nonce: "32891756",
+    issuedAt: "2021-09-30T16:25:24Z",
+    expirationTime: "2021-09-30T16:35:24Z",
+    resources: ["https://example.com/terms"]
+  }
+
+  it("formats and parses a message", function() {
+    const text = formatSiweMessage(message)
+    expect(text).toEqual([
+      "example.com wants you to sign in with your Ethereum account:",
+      "0xFadAFCE89EA2221fa33005640Acf2C923312F2b9",
+      "",
+      "Sign in to My Awesome DApp",
+      "",
+      "URI: https://example.com/login",
+      "Version: 1",
+      "Chain ID: 1",
+      "Nonce: 32891756",
+      "Issued At: 2021-09-30T16:25:24Z",
+      "Expiration Time: 2021-09-30T16:35:24Z",
+      "Resources:",
+      "- https://example.com/terms"
+    ].join("\n"))
+
+    const parsed = parseSiweMessage(text)
+    expect(parsed.domain).toEqual(message.domain)
+    expect(parsed.address).toEqual(message.address)
+    expect(parsed.statement).toEqual(message.statement)
+    expect(parsed.chainId).toEqual(1)
+    expect(parsed.resources).toEqual(message.resources)
+  })
+
+  it("parses a message without a statement", function() {
+    const text = formatSiweMessage({ ...message, statement: undefined })
+    expect(parseSiweMessage(text).statement).toBeUndefined()
+  })
+
+  it("rejects an invalid address checksum", function() {
+    const text = formatSiweMessage({
+      ...message,
+      address: "0xfAdAFCE89EA2221fa33005640Acf2C923312F2b9"
+    })
+    expect(() => parseSiweMessage(text)).toThrowError(/checksum/)
+  })
+
+  it("rejects expired messages and mismatched domains", function() {
+    const time = new Date("2021-09-30T16:30:00Z")
+    expect(() => validateSiweMessage(message, { time })).not.toThrow()
+    expect(() =>
+      validateSiweMessage(message, { time: new Date("2021-09-30T17:00:00Z") })
+    ).toThrowError(/expired/)
+    expect(() =>
+      validateSiweMessage(message, { time, domain: "evil.com" })
+    ).toThrowError(/domain/)
+  })
+})
@@ -0,0 +1,210 @@
+const BN = require("bn.js")
+const { makeDefaultAbiRegistry } = require("../build/npm/dist/lib/AbiRegistry")
+const {
+  decodeRevertReason,
+  previewTransaction
+} = require("../build/npm/dist/provider/TransactionPreview")
+const { makeLinkedProvider, makeRelay } = require("./providerFixtures")
+
+const TOKEN = "0x" + "aa".repeat(20)
+const RECIPIENT = "0x" + "bb".repeat(20)
+const word = hex => hex.padStart(64, "0")
+
+// transfer(RECIPIENT, 1000)
+const TRANSFER_DATA = Buffer.from(
+  "a9059cbb" + word("bb".repeat(20)) + word((1000).toString(16)),
+  "hex"
+)
+// Error("Insufficient balance")
+const ERROR_DATA =
+  "0x08c379a0" +
+  word("20") +
+  word((20).toString(16)) +
+  Buffer.from("Insufficient balance").toString("hex").padEnd(64, "0")
+
+function makeTransaction(fields = {}) {
+  return {
+    fromAddress: "0x" + "11".repeat(20),
+    toAddress: TOKEN,
+    weiValue: new BN(0),
+    data: TRANSFER_DATA,
+    nonce: null,
+    gasPriceInWei: null,
+    maxFeePerGas: null,
+    maxPriorityFeePerGas: null,
+    gasLimit: null,
+    chainId: 1,
+    type: null,
+    accessList: null,
+    ...fields
+  }
+}
+
+describe("ABI registry tests", function () {
+  it("decodes ERC-20 transfers", function () {
+    const call = makeDefaultAbiRegistry().decode(TRANSFER_DATA, {
+      to: TOKEN,
+      value: new BN(0)
+    })
+
+    expect(call.signature).toEqual("transfer(address,uint256)")
+    expect(call.args).toEqual([
+      { name: "to", type: "address", value: RECIPIENT },
+      { name: "amount", type: "uint256", value: "1000" }
+    ])
+    expect(call.description).toEqual(
+      `Transfer 1000 of token ${TOKEN} to ${RECIPIENT}`
+    )
+  })
+
+  it("decodes registered functions with dynamic parameters", function () {
+    const registry = makeDefaultAbiRegistry()
+    registry.register("setName(string name)")
+    const data = Buffer.from(
+      "c47f0027" +
+        word("20") +
+        word("03") +
+        Buffer.from("abc").toString("hex").padEnd(64, "0"),
+      "hex"
+    )
+
+    expect(
+      registry.decode(data, { to: TOKEN, value: new BN(0) }).args[0].value
+    ).toEqual("abc")
+    expect(
+      registry.decode(data.slice(0, 40), { to: TOKEN, value: new BN(0) })
+    ).toBeNull()
+    expect(
+      registry.decode(Buffer.from("deadbeef", "hex"), {
+        to: TOKEN,
+        value: new BN(0)
+      })
+    ).toBeNull()
+  })
+
+  it("decodes revert reasons and panics", function () {
+    expect(decodeRevertReason(Buffer.from(ERROR_DATA.slice(2), "hex"))).toEqual(
+      "Insufficient balance"
+    )
+    expect(
+      decodeRevertReason(Buffer.from("4e487b71" + word("11"), "hex"))
+    ).toEqual("Panic(0x11): arithmetic overflow or underflow")
+    expect(decodeRevertReason(Buffer.alloc(0))).toBeNull()
+  })
+})
+
+describe("transaction preview tests", function () {
+  it("reports the revert reason of a failing transaction", async function () {
+    const request = () =>
+      Promise.reject({
+        code: 3,
+        message: "execution reverted",
+        data: ERROR_DATA
+      })
+    const preview = await previewTransaction(
+      makeTransaction(),
+      makeDefaultAbiRegistry(),
+      request
+    )
+
+    expect(preview.call.name).toEqual("transfer")
+    expect(preview.simulation.success).toBe(false)
+    expect(preview.simulation.revertReason).toEqual("Insufficient balance")
+  })
+
+  it("leaves out the simulation if the node cannot be reached", async function () {
+    const request = () => Promise.reject(new Error("Failed to fetch"))
+    const preview = await previewTransaction(
+      makeTransaction({
+        toAddress: RECIPIENT,
+        data: Buffer.alloc(0),
+        weiValue: new BN(5)
+      }),
+      makeDefaultAbiRegistry(),
+      request
+    )
+
+    expect(preview.call).toBeNull()
+    expect(preview.description).toEqual(`Send 5 wei to ${RECIPIENT}`)
+    expect(preview.simulation).toBeNull()
+  })
+})
+
+// fake relay whose node answers eth_call, and whose wallet signs, only when
+// the test says so
+function makeDeferredRelay() {
+  const relay = makeRelay(["0x" + "11".repeat(20)], {
+    submitted: [],
+    shown: 0,
+    hidden: 0,
+    makeEthereumJSONRPCRequest(req) {
+      return new Promise(resolve => {
+        relay.answerCall = () => resolve({ jsonrpc: "2.0", id: req.id, result: "0x" })
+      })
+    },
+    signAndSubmitEthereumTransaction(tx) {
+      relay.submitted.push(tx)
+      return {
+        promise: new Promise(resolve => {
+          relay.sign = () => resolve({ result: "0x" + "cd".repeat(32) })
+        }),
+        cancel() {}
+      }
+    },
+    showTransactionPreview() {
+      relay.shown++
+      return () => relay.hidden++
+    }
+  })
+  return relay
+}
+
+// resolves once pending promise callbacks have run
+async function flush() {
+  for (let i = 0; i < 20; i++) {
+    await Promise.resolve()
+  }
+}
+
+describe("transaction preview provider tests", function () {
+  function sendTransaction(provider) {
+    return provider.request({
+      method: "eth_sendTransaction",
+      params: [{ from: "0x" + "11".repeat(20), to: RECIPIENT, value: "0x5" }]
+    })
+  }
+
+  it("asks the wallet to sign while the transaction is simulated", async function () {
+    const relay = makeDeferredRelay()
+    const provider = await makeLinkedProvider(relay, { transactionPreview: true })
+
+    const result = sendTransaction(provider)
+    await flush()
+    expect(relay.submitted.length).toEqual(1)
+    expect(relay.shown).toEqual(0)
+
+    relay.answerCall()
+    await flush()
+    expect(relay.shown).toEqual(1)
+
+    relay.sign()
+    await result
+    expect(relay.hidden).toEqual(1)
+    provider.destroy()
+  })
+
+  it("does not show previews of transactions already signed", async function () {
+    const relay = makeDeferredRelay()
+    const provider = await makeLinkedProvider(relay, { transactionPreview: true })
+
+    const result = sendTransaction(provider)
+    await flush()
+    relay.sign()
+    await result
+    relay.answerCall()
+    await flush()
+
+    expect(relay.shown).toEqual(0)
+    provider.destroy()
+  })
+})
@@ -0,0 +1,113 @@
+const {
+  LOCAL_STORAGE_TRANSACTIONS_KEY,
+  TransactionTracker
+} = require("../build/npm/dist/provider/TransactionTracker")
+
+const toHex = n => "0x" + n.toString(16)
+const hashOf = n => "0x" + n.toString(16).padStart(64, "0")
+const from = "0x" + "11".repeat(20)
+
+// fake Web3Provider serving mined transactions, receipts and nonces
+function makeNode() {
+  const node = {
+    blockHeight: 100,
+    transactions: {},
+    receipts: {},
+    transactionCount: 0,
+    sendAsync(request, callback) {
+      const respond = result => callback(null, { jsonrpc: "2.0", id: request.id, result })
+      const [param] = request.params
+      switch (request.method) {
+        case "eth_blockNumber":
+          return respond(toHex(node.blockHeight))
+        case "eth_getTransactionReceipt":
+          return respond(node.receipts[param] || null)
+        case "eth_getTransactionByHash":
+          return respond(node.transactions[param] || null)
+        case "eth_getTransactionCount":
+          return respond(toHex(node.transactionCount))
+        case "eth_getBlockByNumber":
+          return respond({ transactions: Object.values(node.transactions) })
+      }
+      callback(new Error(`unexpected method ${request.method}`), null)
+    }
+  }
+  return node
+}
+
+function makeStorage() {
+  const items = {}
+  return {
+    getItem: key => (key in items ? items[key] : null),
+    setItem: (key, value) => (items[key] = value),
+    removeItem: key => delete items[key]
+  }
+}
+
+describe("transaction tracker tests", function() {
+  let node
+  let storage
+  let tracker
+  let statuses
+
+  beforeEach(function() {
+    node = makeNode()
+    storage = makeStorage()
+    tracker = new TransactionTracker(node, storage, () => 1)
+    statuses = []
+    tracker.events.on("transactionStatus", status => statuses.push(status))
+  })
+
+  afterEach(function() {
+    tracker.destroy()
+  })
+
+  it("reports mined transactions and their confirmations", async function() {
+    tracker.track(hashOf(1), 1)
+    node.receipts[hashOf(1)] = {
+      blockNumber: toHex(100),
+      blockHash: hashOf(100),
+      status: "0x1"
+    }
+    await tracker.poll()
+    node.blockHeight = 102
+    await tracker.poll()
+
+    expect(statuses.map(s => [s.status, s.confirmations])).toEqual([
+      ["pending", undefined],
+      ["mined", undefined],
+      ["confirmed", 3]
+    ])
+  })
+
+  it("reports transactions whose nonce was used by another", async function() {
+    tracker.track(hashOf(1), 1, from, 5)
+    node.transactions[hashOf(2)] = { hash: hashOf(2), from, nonce: toHex(5) }
+    node.transactionCount = 6
+    await tracker.poll()
+
+    expect(statuses[1]).toEqual({
+      status: "replaced",
+      hash: hashOf(1),
+      chainId: 1,
+      replacedBy: hashOf(2)
+    })
+    expect(storage.getItem(LOCAL_STORAGE_TRANSACTIONS_KEY)).toBeNull()
+  })
+
+  it("resumes tracking persisted transactions", async function() {
+    tracker.track(hashOf(1), 1)
+    tracker.destroy()
+
+    tracker = new TransactionTracker(node, storage, () => 1)
+    tracker.events.on("transactionStatus", status => statuses.push(status))
+    node.receipts[hashOf(1)] = {
+      blockNumber: toHex(100),
+      blockHash: hashOf(100),
+      status: "0x0"
+    }
+    await tracker.poll()
+
+    expect(statuses.map(s => s.status)).toEqual(["pending", "reverted"])
+  })
+})
@@ -0,0 +1,149 @@
+const { recoverAddress } = require("../build/npm/dist/lib/ecRecover")
+const { makeProvider, makeRelay } = require("./providerFixtures")
+
+// personal_sign of "Some data" from the web3.js accounts documentation
+const PERSONAL_SIGNER = "0x2c7536e3605d9c16a7a3d7b1898e529396a65c23"
+const PERSONAL_SIGNATURE =
+  "0xb91467e570a6466aa9e9876cbcd013baba02900b8979d43fe208a4a4f339f5fd" +
+  "6007e74cd82e037b800186422fc2da167c747ef045e5d18a5f5d4300f8e1a0291c"
+
+// example of the EIP-712 specification, signed by keccak256("cow")
+const TYPED_DATA_SIGNER = "0xcd2a3d9f938e13cd947ec05abc7fe734df8dd826"
+const TYPED_DATA_SIGNATURE =
+  "0x4355c47d63924e8a72e509b65029052eb6c299d53a04e167c5775fd466751c9d" +
+  "07299936d304c153f6443dfa05f40ff007d72911b6f72307f996231605b91562" +
+  "1c"
+const TYPED_DATA = {
+  types: {
+    EIP712Domain: [
+      { name: "name", type: "string" },
+      { name: "version", type: "string" },
+      { name: "chainId", type: "uint256" },
+      { name: "verifyingContract", type: "address" }
+    ],
+    Person: [
+      { name: "name", type: "string" },
+      { name: "wallet", type: "address" }
+    ],
+    Mail: [
+      { name: "from", type: "Person" },
+      { name: "to", type: "Person" },
+      { name: "contents", type: "string" }
+    ]
+  },
+  primaryType: "Mail",
+  domain: {
+    name: "Ether Mail",
+    version: "1",
+    chainId: 1,
+    verifyingContract: "0xCcCCccccCCCCcCCCCCCcCcCccCcCCCcCcccccccC"
+  },
+  message: {
+    from: { name: "Cow", wallet: "0xCD2a3d9F938E13CD947Ec05AbC7FE734Df8DD826" },
+    to: { name: "Bob", wallet: "0xbBbBBBBbbBBBbbbBbbBbbbbBBbBbbbbBbBbbBBbB" },
+    contents: "Hello, Bob!"
+  }
+}
+
+const CONTRACT_WALLET = "0x" + "cc".repeat(20)
+const N = BigInt(
+  "0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141"
+)
+
+// fake relay answering eth_call with the given result
+function makeCallRelay(result) {
+  const relay = makeRelay([], {
+    calls: [],
+    makeEthereumJSONRPCRequest(request) {
+      relay.calls.push(request)
+      return Promise.resolve({ jsonrpc: "2.0", id: request.id, result })
+    }
+  })
+  return relay
+}
+
+// returns the signature with s replaced by n - s and v flipped, which
+// recovers the same address
+function malleate(signature) {
+  const buf = Buffer.from(signature.slice(2), "hex")
+  const s = BigInt("0x" + buf.slice(32, 64).toString("hex"))
+  const highS = Buffer.from((N - s).toString(16).padStart(64, "0"), "hex")
+  const v = Buffer.from([buf[64] === 27 ? 28 : 27])
+  return "0x" + Buffer.concat([buf.slice(0, 32), highS, v]).toString("hex")
+}
+
+describe("signature verification tests", function() {
+  it("recovers the signer of personal_sign and typed data signatures", async function() {
+    const relay = makeCallRelay("0x")
+    const provider = makeProvider(relay)
+
+    expect(
+      await provider.verifySignature(PERSONAL_SIGNER, "Some data", PERSONAL_SIGNATURE)
+    ).toBe(true)
+    expect(
+      await provider.verifySignature(TYPED_DATA_SIGNER, TYPED_DATA, TYPED_DATA_SIGNATURE)
+    ).toBe(true)
+    expect(relay.calls).toEqual([])
+  })
+
+  it("accepts recovery ids with and without the 27 offset", function() {
+    const hash = Buffer.alloc(32, 1)
+    const sig = Buffer.from(PERSONAL_SIGNATURE.slice(2), "hex")
+    const raw = Buffer.concat([sig.slice(0, 64), Buffer.from([sig[64] - 27])])
+
+    expect(recoverAddress(hash, raw)).toEqual(recoverAddress(hash, sig))
+  })
+
+  it("rejects malformed and malleable signatures", function() {
+    const hash = Buffer.alloc(32, 1)
+    const sig = Buffer.from(PERSONAL_SIGNATURE.slice(2), "hex")
+    const withV = v => Buffer.concat([sig.slice(0, 64), Buffer.from([v])])
+
+    expect(recoverAddress(hash, withV(2))).toBeNull()
+    expect(recoverAddress(hash, withV(29))).toBeNull()
+    expect(recoverAddress(hash, sig.slice(0, 64))).toBeNull()
+    expect(recoverAddress(hash, Buffer.concat([sig, Buffer.from([0])]))).toBeNull()
+    expect(recoverAddress(hash.slice(1), sig)).toBeNull()
+    expect(recoverAddress(hash, Buffer.concat([Buffer.alloc(32), sig.slice(32)]))).toBeNull()
+    expect(
+      recoverAddress(hash, Buffer.from(malleate(PERSONAL_SIGNATURE).slice(2), "hex"))
+    ).toBeNull()
+  })
+
+  it("asks the contract about signatures it did not recover to", async function() {
+    const magic = "0x1626ba7e" + "00".repeat(28)
+    const relay = makeCallRelay(magic)
+    const provider = makeProvider(relay)
+
+    expect(
+      await provider.verifySignature(CONTRACT_WALLET, "Some data", PERSONAL_SIGNATURE)
+    ).toBe(true)
+    const [call] = relay.calls
+    expect(call.method).toEqual("eth_call")
+    expect(call.params[0].to).toEqual(CONTRACT_WALLET)
+    // isValidSignature(hash, signature) with the signature padded to 96 bytes
+    expect(call.params[0].data.slice(0, 10)).toEqual("0x1626ba7e")
+    expect(call.params[0].data.length).toEqual(2 + 2 * (4 + 32 * 3 + 96))
+    expect(call.params[0].data).toContain(PERSONAL_SIGNATURE.slice(2))
+
+    expect(
+      await makeProvider(makeCallRelay("0xffffffff")).verifySignature(
+        CONTRACT_WALLET,
+        "Some data",
+        PERSONAL_SIGNATURE
+      )
+    ).toBe(false)
+  })
+
+  it("does not accept a malleated signature of the signer", async function() {
+    const provider = makeProvider(makeCallRelay("0x"))
+
+    expect(
+      await provider.verifySignature(
+        PERSONAL_SIGNER,
+        "Some data",
+        malleate(PERSONAL_SIGNATURE)
+      )
+    ).toBe(false)
+  })
+})
@@ -0,0 +1,72 @@
+const { ScopedLocalStorage } = require("../build/npm/dist/lib/ScopedLocalStorage")
+const { makeProvider, makeRelay } = require("./providerFixtures")
+
+const FIRST = "0x" + "11".repeat(20)
+const SECOND = "0x" + "22".repeat(20)
+
+describe("wallet permission tests", function() {
+  let storage
+
+  beforeEach(function() {
+    storage = new ScopedLocalStorage("wallet-permissions-test")
+  })
+
+  afterEach(function() {
+    storage.clear()
+  })
+
+  it("grants eth_accounts on request and ignores the wallet once revoked", async function() {
+    const relay = makeRelay([FIRST])
+    const provider = makeProvider(relay, { storage })
+
+    const [granted] = await provider.request({
+      method: "wallet_requestPermissions",
+      params: [{ eth_accounts: {} }]
+    })
+    expect(granted.caveats[0].value).toEqual([FIRST])
+
+    await provider.request({
+      method: "wallet_revokePermissions",
+      params: [{ eth_accounts: {} }]
+    })
+    relay.pushAccounts([SECOND])
+    expect(await provider.request({ method: "eth_accounts" })).toEqual([])
+    expect(await provider.request({ method: "wallet_getPermissions" })).toEqual([])
+
+    expect(await provider.request({ method: "eth_requestAccounts" })).toEqual([FIRST])
+    relay.pushAccounts([SECOND])
+    expect(await provider.request({ method: "eth_accounts" })).toEqual([SECOND])
+  })
+
+  it("keeps following the wallet after it reports no accounts", async function() {
+    const relay = makeRelay([FIRST])
+    const provider = makeProvider(relay, { storage })
+    await provider.request({ method: "eth_requestAccounts" })
+
+    relay.pushAccounts([])
+    expect(await provider.request({ method: "wallet_getPermissions" })).toEqual([])
+    relay.pushAccounts([SECOND])
+
+    expect(await provider.request({ method: "eth_accounts" })).toEqual([SECOND])
+    const [permission] = await provider.request({ method: "wallet_getPermissions" })
+    expect(permission.caveats[0].value).toEqual([SECOND])
+  })
+
+  it("dates the implicit grant of sessions linked before permissions once", async function() {
+    storage.setItem("Addresses", FIRST)
+    const provider = makeProvider(makeRelay([FIRST]), { storage })
+
+    const [first] = await provider.request({ method: "wallet_getPermissions" })
+    await new Promise(resolve => setTimeout(resolve, 5))
+    const [second] = await provider.request({ method: "wallet_getPermissions" })
+
+    expect(first.parentCapability).toEqual("eth_accounts")
+    expect(first.caveats[0].value).toEqual([FIRST])
+    expect(second.date).toEqual(first.date)
+    expect(
+      await makeProvider(makeRelay([FIRST]), { storage }).request({
+        method: "wallet_getPermissions"
+      })
+    ).toEqual([first])
+  })
+})
@@ -0,0 +1,56 @@
+const { makeProvider, makeRelay } = require("./providerFixtures")
+
+const TOKEN = "0x" + "ab".repeat(20)
+
+// fake relay recording the assets it is asked to watch
+function makeWatchingRelay(approved) {
+  const relay = makeRelay([], {
+    watched: [],
+    watchAsset(...args) {
+      relay.watched.push(args)
+      return { promise: Promise.resolve({ result: approved }), cancel() {} }
+    }
+  })
+  return relay
+}
+
+describe("wallet_watchAsset tests", function() {
+  it("asks the wallet to watch the asset and returns its answer", async function() {
+    const relay = makeWatchingRelay(true)
+    const provider = makeProvider(relay)
+
+    const result = await provider.request({
+      method: "wallet_watchAsset",
+      params: {
+        type: "ERC20",
+        options: { address: TOKEN.toUpperCase().replace("0X", "0x"), symbol: "TKN", decimals: 18 }
+      }
+    })
+
+    expect(result).toBe(true)
+    expect(relay.watched).toEqual([["ERC20", TOKEN, "TKN", 18, undefined, undefined]])
+    expect(
+      await makeProvider(makeWatchingRelay(false)).request({
+        method: "wallet_watchAsset",
+        params: { type: "ERC20", options: { address: TOKEN } }
+      })
+    ).toBe(false)
+  })
+
+  it("rejects invalid assets without asking the wallet", async function() {
+    const relay = makeWatchingRelay(true)
+    const provider = makeProvider(relay)
+    const watch = params => provider.request({ method: "wallet_watchAsset", params })
+    const invalidParams = jasmine.objectContaining({ code: -32602 })
+
+    await expectAsync(watch({ type: "ERC1155", options: { address: TOKEN } }))
+      .toBeRejectedWith(invalidParams)
+    await expectAsync(watch({ type: "ERC20", options: { address: "0x1234" } }))
+      .toBeRejectedWith(invalidParams)
+    await expectAsync(watch({ type: "ERC20", options: { address: TOKEN, decimals: 37 } }))
+      .toBeRejectedWith(invalidParams)
+    await expectAsync(watch({ type: "ERC721", options: { address: TOKEN } }))
+      .toBeRejectedWith(invalidParams)
+    expect(relay.watched).toEqual([])
+  })
+})
@@ -0,0 +1,148 @@
+const {
+  WebSocketSubscriptionManager
+} = require("../build/npm/dist/provider/WebSocketSubscriptionManager")
+const { makeProvider, makeRelay } = require("./providerFixtures")
+
+const NODE_URL = "wss://mainnet.infura.io/ws/v3/INFURA_API_KEY"
+
+// resolves once pending promise callbacks have run
+async function flush() {
+  for (let i = 0; i < 20; i++) {
+    await Promise.resolve()
+  }
+}
+
+// returns a WebSocket class connecting to a node answering requests with
+// answer(method, params)
+function makeWebSocketClass(answer) {
+  class FakeWebSocket {
+    constructor(url) {
+      this.url = url
+      this.sent = []
+      FakeWebSocket.instances.push(this)
+      setTimeout(() => this.onopen && this.onopen({}), 0)
+    }
+
+    send(data) {
+      const { id, method, params } = JSON.parse(data)
+      this.sent.push({ method, params })
+      const response = { jsonrpc: "2.0", id }
+      try {
+        response.result = answer(method, params)
+      } catch (err) {
+        response.error = { code: err.code, message: err.message }
+      }
+      setTimeout(() => this.receive(response), 0)
+    }
+
+    receive(message) {
+      if (this.onmessage) {
+        this.onmessage({ data: JSON.stringify(message) })
+      }
+    }
+
+    close() {}
+  }
+  FakeWebSocket.instances = []
+  return FakeWebSocket
+}
+
+function blockNumberNode(method) {
+  if (method === "eth_blockNumber") {
+    return "0x10"
+  }
+  if (method === "eth_subscribe") {
+    return "0xnode"
+  }
+  throw Object.assign(new Error("header not found"), { code: -32000 })
+}
+
+describe("WebSocket JSON-RPC tests", function() {
+  let WebSocketClass
+
+  beforeEach(function() {
+    WebSocketClass = makeWebSocketClass(blockNumberNode)
+  })
+
+  afterEach(function() {
+    jasmine.clock().uninstall()
+  })
+
+  it("answers requests under the id of the caller", async function() {
+    const manager = new WebSocketSubscriptionManager(NODE_URL, WebSocketClass)
+
+    const [first, second] = await Promise.all([
+      manager.request({ jsonrpc: "2.0", id: 7, method: "eth_blockNumber", params: [] }),
+      manager.request({ jsonrpc: "2.0", id: 7, method: "eth_blockNumber", params: [] })
+    ])
+
+    expect(first).toEqual(jasmine.objectContaining({ id: 7, result: "0x10" }))
+    expect(second).toEqual(jasmine.objectContaining({ id: 7, result: "0x10" }))
+    expect(WebSocketClass.instances.length).toEqual(1)
+    await expectAsync(
+      manager.request({ jsonrpc: "2.0", id: 8, method: "eth_call", params: [] })
+    ).toBeRejectedWith(jasmine.objectContaining({ code: -32000 }))
+    manager.destroy()
+  })
+
+  it("re-establishes subscriptions under the same id after reconnecting", async function() {
+    jasmine.clock().install()
+    jasmine.clock().mockDate()
+    const manager = new WebSocketSubscriptionManager(NODE_URL, WebSocketClass)
+    const notifications = []
+    manager.events.on("notification", n => notifications.push(n))
+
+    const subscribed = manager.handleRequest({ method: "eth_subscribe", params: ["newHeads"] })
+    jasmine.clock().tick(1)
+    await flush()
+    jasmine.clock().tick(1)
+    const { result: id } = await subscribed
+
+    const [first] = WebSocketClass.instances
+    first.onclose({ code: 1006, reason: "" })
+    jasmine.clock().tick(5000)
+    const [, second] = WebSocketClass.instances
+    jasmine.clock().tick(1)
+    await flush()
+    jasmine.clock().tick(1)
+    await flush()
+
+    expect(second.sent).toEqual([{ method: "eth_subscribe", params: ["newHeads"] }])
+    second.receive({
+      jsonrpc: "2.0",
+      method: "eth_subscription",
+      params: { subscription: "0xnode", result: { number: "0x11" } }
+    })
+    expect(notifications).toEqual([
+      { method: "eth_subscription", params: { subscription: id, result: { number: "0x11" } } }
+    ])
+    manager.destroy()
+  })
+
+  it("sends every request of a provider over the socket of a ws url", async function() {
+    const OriginalWebSocket = window.WebSocket
+    window.WebSocket = WebSocketClass
+    const relay = makeRelay([], {
+      makeEthereumJSONRPCRequest: jasmine.createSpy("makeEthereumJSONRPCRequest")
+    })
+    const provider = makeProvider(relay, { jsonRpcUrl: NODE_URL })
+
+    try {
+      expect(await provider.request({ method: "eth_blockNumber" })).toEqual("0x10")
+      expect(
+        await provider.request({ method: "eth_subscribe", params: ["newHeads"] })
+      ).toMatch(/^0x[0-9a-f]{32}$/)
+    } finally {
+      window.WebSocket = OriginalWebSocket
+      provider.destroy()
+    }
+
+    expect(relay.makeEthereumJSONRPCRequest).not.toHaveBeenCalled()
+    expect(WebSocketClass.instances.length).toEqual(1)
+    expect(WebSocketClass.instances[0].url).toEqual(NODE_URL)
+    expect(WebSocketClass.instances[0].sent).toEqual([
+      { method: "eth_blockNumber", params: [] },
+      { method: "eth_subscribe", params: ["newHeads"] }
+    ])
+  })
+})
@@ -50,8 +50,12 @@ function chromeMain(): void {
       }, false)
 
       window.walletLink = walletLink
-      window.ethereum = ethereum
-      window.web3 = web3
+      // makeWeb3Provider announced the provider via EIP-6963, so dapps can
+      // still discover it if another wallet already owns window.ethereum
+      if (typeof window.ethereum === "undefined") {
+        window.ethereum = ethereum
+        window.web3 = web3
+      }
 
       window.addEventListener('load', _ => {
         walletLink.setAppInfo(document.title, null)
@@ -49,6 +49,18 @@ export namespace EthereumChain {
     }
   }
 
+  // chains that do not support EIP-1559 fees, which are priced with gasPrice
+  export function supportsEIP1559(thiz: EthereumChain): boolean {
+    switch(thiz) {
+      case EthereumChain.ETHEREUM_CLASSIC_MAINNET :
+      case EthereumChain.BSC_MAINNET :
+      case EthereumChain.BSC_TESTNET :
+      case EthereumChain.OPTIMISM_KOVAN :
+      case EthereumChain.ARBITRUM_TESTNET : return false
+      default: return true
+    }
+  }
+
   export function fromChainId(chainId: bigint): EthereumChain | undefined {
     switch(Number(chainId)) {
       // mainnets
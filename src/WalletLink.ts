@@ -5,9 +5,12 @@
 import { WalletLinkAnalytics } from "./connection/WalletLinkAnalytics"
 import { WalletLinkAnalyticsAbstract } from "./init/WalletLinkAnalyticsAbstract"
 import { ScopedLocalStorage } from "./lib/ScopedLocalStorage"
+import { randomUUID } from "./provider/EIP6963"
+import { FeeSpeed } from "./provider/FeeEstimator"
 import { WalletLinkProvider } from "./provider/WalletLinkProvider"
 import { WalletLinkSdkUI } from "./provider/WalletLinkSdkUI"
 import { WalletLinkUI, WalletLinkUIOptions } from "./provider/WalletLinkUI"
+import { RequestTimeouts } from "./relay/RequestExpiry"
 import { WalletLinkRelay } from "./relay/WalletLinkRelay"
 import { WalletLinkRelayEventManager } from "./relay/WalletLinkRelayEventManager"
 import { getFavicon } from "./util"
@@ -39,6 +42,18 @@ export interface WalletLinkOptions {
   overrideIsMetaMask?: boolean
   /** @optional whether wallet link provider should override the isCoinbaseWallet property. */
   overrideIsCoinbaseWallet?: boolean
+  /** @optional whether providers should be announced via EIP-6963 discovery; defaults to true. */
+  announceProvider?: boolean
+  /** @optional interval in milliseconds at which new blocks are polled for subscriptions; defaults to 15 seconds. */
+  pollingInterval?: number
+  /** @optional time in milliseconds after which filters that are not polled are uninstalled; defaults to 5 minutes. */
+  filterTimeout?: number
+  /** @optional fills in gas limits, fees and nonces dapps leave out of eth_sendTransaction, using fees of the given speed; off by default. */
+  feeEstimation?: FeeSpeed
+  /** @optional decodes and simulates transactions before eth_sendTransaction sends them, and shows the result in the UI; off by default. */
+  transactionPreview?: boolean
+  /** @optional time in milliseconds the wallet has to answer requests, by Web3Method, with a "default" for the others; defaults to 10 minutes, and to no expiry for requestEthereumAccounts. 0 or Infinity means no expiry. */
+  requestTimeouts?: RequestTimeouts
 }
 
 export class WalletLink {
@@ -54,6 +69,13 @@ export class WalletLink {
   private _storage: ScopedLocalStorage
   private _overrideIsMetaMask: boolean
   private _overrideIsCoinbaseWallet: boolean
+  private _announceProvider: boolean
+  // announced by all the providers, which share the session
+  private readonly _providerUuid = randomUUID()
+  private _pollingInterval?: number
+  private _filterTimeout?: number
+  private _feeEstimation?: FeeSpeed
+  private _transactionPreview: boolean
   private _walletLinkAnalytics: WalletLinkAnalyticsAbstract
 
   /**
@@ -79,6 +101,13 @@ export class WalletLink {
 
     this._overrideIsCoinbaseWallet = options.overrideIsCoinbaseWallet ?? true
 
+    this._announceProvider = options.announceProvider ?? true
+
+    this._pollingInterval = options.pollingInterval
+    this._filterTimeout = options.filterTimeout
+    this._feeEstimation = options.feeEstimation
+    this._transactionPreview = options.transactionPreview ?? false
+
     this._walletLinkAnalytics = options.walletLinkAnalytics
       ? options.walletLinkAnalytics
       : new WalletLinkAnalytics()
@@ -102,7 +131,8 @@ export class WalletLink {
       walletLinkUIConstructor,
       storage: this._storage,
       relayEventManager: this._relayEventManager,
-      walletLinkAnalytics: this._walletLinkAnalytics
+      walletLinkAnalytics: this._walletLinkAnalytics,
+      requestTimeouts: options.requestTimeouts
     })
     this.setAppInfo(options.appName, options.appLogoUrl)
     this._relay.attachUI()
@@ -112,11 +142,15 @@ export class WalletLink {
    * Create a Web3 Provider object
    * @param jsonRpcUrl Ethereum JSON RPC URL (Default: "")
    * @param chainId Ethereum Chain ID (Default: 1)
+   * @param watchAddresses addresses eth_accounts returns, read-only, until a
+   * wallet is linked with eth_requestAccounts. Not supported by the extension.
+   * (Default: [])
    * @returns A Web3 Provider
    */
   public makeWeb3Provider(
     jsonRpcUrl = "",
-    chainId = 1
+    chainId = 1,
+    watchAddresses: string[] = []
   ): WalletLinkProvider {
     if (typeof window.walletLinkExtension !== "undefined") {
       if (
@@ -130,6 +164,11 @@ export class WalletLink {
         window.walletLinkExtension.setProviderInfo(jsonRpcUrl, chainId)
       }
 
+      if (watchAddresses.length > 0) {
+        console.warn(
+          "watchAddresses are ignored, the WalletLink extension answers eth_accounts"
+        )
+      }
       return window.walletLinkExtension
     }
 
@@ -148,7 +187,14 @@ export class WalletLink {
       chainId,
       walletLinkAnalytics: this._walletLinkAnalytics,
       overrideIsMetaMask: this._overrideIsMetaMask,
-      overrideIsCoinbaseWallet: this._overrideIsCoinbaseWallet
+      overrideIsCoinbaseWallet: this._overrideIsCoinbaseWallet,
+      pollingInterval: this._pollingInterval,
+      filterTimeout: this._filterTimeout,
+      feeEstimation: this._feeEstimation,
+      transactionPreview: this._transactionPreview,
+      watchAddresses,
+      announceProvider: this._announceProvider,
+      providerUuid: this._providerUuid
     })
   }
 
@@ -180,6 +226,20 @@ export class WalletLink {
     }
   }
 
+  /**
+   * Rotates the key of the messages sent to the wallet. Keys are also
+   * rotated periodically. Rejects if the wallet has not agreed on session
+   * keys with the handshake.
+   */
+  public rotateSessionKeys(): Promise<void> {
+    if (!this._relay) {
+      return Promise.reject(
+        new Error("Relay not initialized, the extension is in use")
+      )
+    }
+    return this._relay.rotateSessionKeys()
+  }
+
   /**
    * Disconnect. After disconnecting, this will reload the web page to ensure
    * all potential stale state is cleared.
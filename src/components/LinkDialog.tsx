@@ -10,6 +10,10 @@ import css from "./LinkDialog-css"
 import { QRCode } from "./QRCode"
 import { Spinner } from "./Spinner"
 
+import {
+  LINK_PROTOCOL_HANDSHAKE,
+  LINK_PROTOCOL_LEGACY
+} from "../relay/SessionHandshake"
 import { LIB_VERSION } from '../version';
 
 export const LinkDialog: FunctionComponent<{
@@ -17,6 +21,7 @@ export const LinkDialog: FunctionComponent<{
   version: string
   sessionId: string
   sessionSecret: string
+  sessionPublicKey: string | null
   walletLinkUrl: string
   isOpen: boolean
   isConnected: boolean
@@ -76,6 +81,7 @@ export const LinkDialog: FunctionComponent<{
             version={props.version}
             sessionId={props.sessionId}
             sessionSecret={props.sessionSecret}
+            sessionPublicKey={props.sessionPublicKey}
             walletLinkUrl={props.walletLinkUrl}
             isConnected={props.isConnected}
             isParentConnection={props.isParentConnection}
@@ -93,13 +99,18 @@ const ScanQRCode: FunctionComponent<{
   version: string
   sessionId: string
   sessionSecret: string
+  sessionPublicKey: string | null
   walletLinkUrl: string
   isConnected: boolean
   isParentConnection: boolean
 }> = props => {
   const serverUrl = window.encodeURIComponent(props.walletLinkUrl)
   const sessionIdKey = props.isParentConnection ? "parent-id" : "id"
-  const qrUrl = `${props.walletLinkUrl}/#/link?${sessionIdKey}=${props.sessionId}&secret=${props.sessionSecret}&server=${serverUrl}&v=1`
+  // wallets that see the handshake version know to answer the public key
+  const protocolParams = props.sessionPublicKey
+    ? `&publicKey=${props.sessionPublicKey}&v=${LINK_PROTOCOL_HANDSHAKE}`
+    : `&v=${LINK_PROTOCOL_LEGACY}`
+  const qrUrl = `${props.walletLinkUrl}/#/link?${sessionIdKey}=${props.sessionId}&secret=${props.sessionSecret}&server=${serverUrl}${protocolParams}`
 
   return (
     <div class="-walletlink-link-dialog-box-content">
@@ -17,6 +17,7 @@ export interface LinkFlowOptions {
   walletLinkUrl: string
   isParentConnection: boolean
   connected$: Observable<boolean>
+  sessionPublicKey$: Observable<string | null>
 }
 
 interface Optional<T> {
@@ -32,12 +33,14 @@ export class LinkFlow {
   private readonly isParentConnection: boolean
 
   private readonly connected$: Observable<boolean>
+  private readonly sessionPublicKey$: Observable<string | null>
   private readonly extensionUI$: BehaviorSubject<
     Optional<boolean>
   > = new BehaviorSubject({})
   private readonly subscriptions = new Subscription()
 
   private isConnected = false
+  private sessionPublicKey: string | null = null
   private isOpen = false
   private onCancel: (() => void) | null = null
 
@@ -54,6 +57,7 @@ export class LinkFlow {
     this.walletLinkUrl = options.walletLinkUrl
     this.isParentConnection = options.isParentConnection
     this.connected$ = options.connected$
+    this.sessionPublicKey$ = options.sessionPublicKey$
 
     // Check if extension UI is enabled
     fetch("https://api.wallet.coinbase.com/rpc/v2/getFeatureFlags")
@@ -86,6 +90,15 @@ export class LinkFlow {
         }
       })
     )
+
+    this.subscriptions.add(
+      this.sessionPublicKey$.subscribe(v => {
+        if (this.sessionPublicKey !== v) {
+          this.sessionPublicKey = v
+          this.render()
+        }
+      })
+    )
   }
 
   public detach(): void {
@@ -132,6 +145,7 @@ export class LinkFlow {
               version={this.version}
               sessionId={this.sessionId}
               sessionSecret={this.sessionSecret}
+              sessionPublicKey={this.sessionPublicKey}
               walletLinkUrl={this.walletLinkUrl}
               isOpen={this.isOpen}
               isConnected={this.isConnected}
@@ -145,6 +159,7 @@ export class LinkFlow {
               version={this.version}
               sessionId={this.sessionId}
               sessionSecret={this.sessionSecret}
+              sessionPublicKey={this.sessionPublicKey}
               walletLinkUrl={this.walletLinkUrl}
               isOpen={this.isOpen}
               isConnected={this.isConnected}
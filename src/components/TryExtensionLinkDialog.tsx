@@ -9,6 +9,10 @@ import walletLogo from "./icons/QRLogo"
 import { QRCode } from "./QRCode"
 import { Spinner } from "./Spinner"
 import css from "./TryExtensionLinkDialog-css"
+import {
+  LINK_PROTOCOL_HANDSHAKE,
+  LINK_PROTOCOL_LEGACY
+} from "../relay/SessionHandshake"
 import {LIB_VERSION} from "../version";
 
 export const TryExtensionLinkDialog: FunctionComponent<{
@@ -16,6 +20,7 @@ export const TryExtensionLinkDialog: FunctionComponent<{
   version: string
   sessionId: string
   sessionSecret: string
+  sessionPublicKey: string | null
   walletLinkUrl: string
   isOpen: boolean
   isConnected: boolean
@@ -84,6 +89,7 @@ export const TryExtensionLinkDialog: FunctionComponent<{
               version={props.version}
               sessionId={props.sessionId}
               sessionSecret={props.sessionSecret}
+              sessionPublicKey={props.sessionPublicKey}
               walletLinkUrl={props.walletLinkUrl}
               isConnected={props.isConnected}
               isParentConnection={props.isParentConnection}
@@ -129,13 +135,18 @@ const ScanQRBox: FunctionComponent<{
   version: string
   sessionId: string
   sessionSecret: string
+  sessionPublicKey: string | null
   walletLinkUrl: string
   isConnected: boolean
   isParentConnection: boolean
 }> = props => {
   const serverUrl = window.encodeURIComponent(props.walletLinkUrl)
   const sessionIdKey = props.isParentConnection ? "parent-id" : "id"
-  const qrUrl = `${props.walletLinkUrl}/#/link?${sessionIdKey}=${props.sessionId}&secret=${props.sessionSecret}&server=${serverUrl}&v=1`
+  // wallets that see the handshake version know to answer the public key
+  const protocolParams = props.sessionPublicKey
+    ? `&publicKey=${props.sessionPublicKey}&v=${LINK_PROTOCOL_HANDSHAKE}`
+    : `&v=${LINK_PROTOCOL_LEGACY}`
+  const qrUrl = `${props.walletLinkUrl}/#/link?${sessionIdKey}=${props.sessionId}&secret=${props.sessionSecret}&server=${serverUrl}${protocolParams}`
 
   return (
     <div class="-walletlink-extension-dialog-box-bottom">
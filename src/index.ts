@@ -5,8 +5,44 @@
 import { WalletLinkProvider } from "./provider/WalletLinkProvider"
 import { WalletLink } from "./WalletLink"
 
-export { WalletLinkProvider } from "./provider/WalletLinkProvider"
+export {
+  AbiRegistry,
+  CallDescriber,
+  DecodedCall,
+  DecodedValue
+} from "./lib/AbiRegistry"
+export { EncryptedData, encryptForPublicKey } from "./lib/encryption"
+export {
+  formatSiweMessage,
+  parseSiweMessage,
+  SiweMessage,
+  SiweMessageExpectations,
+  validateSiweMessage,
+  verifySiweMessage
+} from "./lib/SiweMessage"
+export {
+  EIP6963ProviderDetail,
+  EIP6963ProviderInfo
+} from "./provider/EIP6963"
+export {
+  TransactionPreview,
+  TransactionSimulation
+} from "./provider/TransactionPreview"
+export { TransactionStatus } from "./provider/TransactionTracker"
+export {
+  ProviderMiddleware,
+  ProviderMiddlewareOptions,
+  WalletLinkProvider
+} from "./provider/WalletLinkProvider"
+export {
+  REQUEST_TIMEOUT_ERROR_CODE,
+  RequestTimeoutError,
+  RequestTimeoutErrorData,
+  RequestTimeouts
+} from "./relay/RequestExpiry"
+export { Web3Method } from "./relay/Web3Method"
 export { WalletLink } from "./WalletLink"
+export { createAsyncMiddleware } from "json-rpc-engine"
 export default WalletLink
 
 declare global {
@@ -18,5 +18,6 @@ export const EVENTS = {
   WEB3_REQUEST: "walletlink_sdk.web3.request",
   WEB3_REQUEST_PUBLISHED: "walletlink_sdk.web3.request_published",
   WEB3_RESPONSE: "walletlink_sdk.web3.response",
+  WEB3_RESPONSE_REJECTED: "walletlink_sdk.web3.response_rejected",
   UNKNOWN_ADDRESS_ENCOUNTERED: "walletlink_sdk.unknown_address_encountered"
 }
@@ -0,0 +1,293 @@
+// Copyright (c) 2018-2020 WalletLink.org <https://www.walletlink.org/>
+// Copyright (c) 2018-2020 Coinbase, Inc. <https://www.coinbase.com/>
+// Licensed under the Apache License, version 2.0
+
+import BN from "bn.js"
+
+import { AddressString } from "../types"
+import {
+  ensureAddressString,
+  hexStringFromBuffer,
+  keccak256,
+  range
+} from "../util"
+
+const SIGNATURE_REGEX = /^\s*(\w+)\s*\(([^()]*)\)\s*$/
+const MAX_UINT256 = new BN(1).shln(256).subn(1)
+
+// addresses and hex strings, integers in decimal, booleans as "true"/"false"
+export type DecodedValue = string | string[]
+
+export interface CallContext {
+  // contract called
+  to: AddressString | null
+  // wei sent with the call
+  value: BN
+}
+
+export interface DecodedCall {
+  name: string
+  // canonical signature, e.g. "transfer(address,uint256)"
+  signature: string
+  args: { name: string; type: string; value: DecodedValue }[]
+  // human-readable description, if one is registered for the function
+  description: string | null
+}
+
+export type CallDescriber = (
+  args: Record<string, DecodedValue>,
+  context: CallContext
+) => string
+
+interface AbiFunction {
+  name: string
+  signature: string
+  types: string[]
+  names: string[]
+  describe?: CallDescriber
+}
+
+/**
+ * Decodes calldata of registered functions. Supports static types, bytes,
+ * string and arrays of static types.
+ */
+export class AbiRegistry {
+  private readonly functions = new Map<string, AbiFunction>() // <selector, function>
+
+  /**
+   * @param signature function signature, optionally with parameter names,
+   * e.g. "transfer(address to, uint256 amount)"
+   * @param describe returns a human-readable description of a call, given its
+   * arguments by name
+   */
+  public register(signature: string, describe?: CallDescriber): void {
+    const match = SIGNATURE_REGEX.exec(signature)
+    if (!match) {
+      throw new Error(`Invalid function signature: ${signature}`)
+    }
+    const params = match[2]
+      .split(",")
+      .map(param => param.trim())
+      .filter(param => param.length > 0)
+      .map(param => param.split(/\s+/))
+    const types = params.map(([type]) => type)
+    const names = params.map(([, name], i) => name ?? `arg${i}`)
+    const canonical = `${match[1]}(${types.join(",")})`
+
+    this.functions.set(selectorOf(canonical), {
+      name: match[1],
+      signature: canonical,
+      types,
+      names,
+      describe
+    })
+  }
+
+  /**
+   * @param data calldata
+   * @param context call the data is sent with
+   * returns the decoded call, or null if the function is not registered or
+   * the data does not match its parameters
+   */
+  public decode(data: Buffer, context: CallContext): DecodedCall | null {
+    if (data.length < 4) {
+      return null
+    }
+    const fn = this.functions.get(data.slice(0, 4).toString("hex"))
+    if (!fn) {
+      return null
+    }
+
+    let values: DecodedValue[]
+    try {
+      values = decodeParameters(fn.types, data.slice(4))
+    } catch {
+      // calldata does not match the registered function
+      return null
+    }
+
+    const args = fn.types.map((type, i) => ({
+      name: fn.names[i],
+      type,
+      value: values[i]
+    }))
+    let description: string | null = null
+    if (fn.describe) {
+      const argsByName: Record<string, DecodedValue> = {}
+      args.forEach(arg => (argsByName[arg.name] = arg.value))
+      description = fn.describe(argsByName, context)
+    }
+    return { name: fn.name, signature: fn.signature, args, description }
+  }
+}
+
+/**
+ * returns a registry of common ERC-20, ERC-721 and Uniswap V2 router functions
+ */
+export function makeDefaultAbiRegistry(): AbiRegistry {
+  const registry = new AbiRegistry()
+
+  // ERC-20
+  registry.register(
+    "transfer(address to, uint256 amount)",
+    ({ to, amount }, context) =>
+      `Transfer ${String(amount)} of token ${String(context.to)} to ` +
+      String(to)
+  )
+  registry.register(
+    "approve(address spender, uint256 amount)",
+    ({ spender, amount }, context) =>
+      `Allow ${String(spender)} to spend ${formatAllowance(amount)} of ` +
+      `token ${String(context.to)}`
+  )
+  // also ERC-721, where the amount is a token id
+  registry.register(
+    "transferFrom(address from, address to, uint256 amount)",
+    ({ from, to, amount }, context) =>
+      `Transfer ${String(amount)} of token ${String(context.to)} from ` +
+      `${String(from)} to ${String(to)}`
+  )
+
+  // ERC-721
+  const describeNFTTransfer: CallDescriber = ({ from, to, tokenId }, context) =>
+    `Transfer NFT #${String(tokenId)} of ${String(context.to)} from ` +
+    `${String(from)} to ${String(to)}`
+  registry.register(
+    "safeTransferFrom(address from, address to, uint256 tokenId)",
+    describeNFTTransfer
+  )
+  registry.register(
+    "safeTransferFrom(address from, address to, uint256 tokenId, bytes data)",
+    describeNFTTransfer
+  )
+  registry.register(
+    "setApprovalForAll(address operator, bool approved)",
+    ({ operator, approved }, context) =>
+      `${approved === "true" ? "Allow" : "Revoke"} ${String(operator)} ` +
+      `to transfer all NFTs of ${String(context.to)}`
+  )
+
+  // Uniswap V2 and compatible routers
+  registry.register(
+    "swapExactTokensForTokens(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline)",
+    ({ amountIn, amountOutMin, path }) =>
+      `Swap ${String(amountIn)} of ${first(path)} for at least ` +
+      `${String(amountOutMin)} of ${last(path)}`
+  )
+  registry.register(
+    "swapTokensForExactTokens(uint256 amountOut, uint256 amountInMax, address[] path, address to, uint256 deadline)",
+    ({ amountOut, amountInMax, path }) =>
+      `Swap at most ${String(amountInMax)} of ${first(path)} for ` +
+      `${String(amountOut)} of ${last(path)}`
+  )
+  registry.register(
+    "swapExactETHForTokens(uint256 amountOutMin, address[] path, address to, uint256 deadline)",
+    ({ amountOutMin, path }, { value }) =>
+      `Swap ${value.toString(10)} wei for at least ${String(amountOutMin)} ` +
+      `of ${last(path)}`
+  )
+  registry.register(
+    "swapExactTokensForETH(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline)",
+    ({ amountIn, amountOutMin, path }) =>
+      `Swap ${String(amountIn)} of ${first(path)} for at least ` +
+      `${String(amountOutMin)} wei`
+  )
+
+  return registry
+}
+
+/**
+ * @param types canonical parameter types
+ * @param data ABI-encoded parameters
+ * Throws if the data does not match the types.
+ */
+export function decodeParameters(
+  types: string[],
+  data: Buffer
+): DecodedValue[] {
+  return types.map((type, i) => decodeParameter(type, data, i * 32))
+}
+
+function decodeParameter(
+  type: string,
+  data: Buffer,
+  offset: number
+): DecodedValue {
+  if (type.endsWith("[]")) {
+    const start = readLength(data, offset)
+    const length = readLength(data, start)
+    const items = data.slice(start + 32)
+    return range(0, length).map(i =>
+      decodeStatic(type.slice(0, -2), items, i * 32)
+    )
+  }
+
+  if (type === "bytes" || type === "string") {
+    const start = readLength(data, offset)
+    const length = readLength(data, start)
+    const bytes = data.slice(start + 32, start + 32 + length)
+    if (bytes.length !== length) {
+      throw new Error(`Invalid ${type} length`)
+    }
+    return type === "string"
+      ? bytes.toString("utf8")
+      : hexStringFromBuffer(bytes, true)
+  }
+
+  return decodeStatic(type, data, offset)
+}
+
+function decodeStatic(type: string, data: Buffer, offset: number): string {
+  const word = readWord(data, offset)
+  if (type === "address") {
+    return ensureAddressString(word.slice(12).toString("hex"))
+  }
+  if (type === "bool") {
+    return new BN(word).isZero() ? "false" : "true"
+  }
+  if (/^uint\d*$/.test(type)) {
+    return new BN(word).toString(10)
+  }
+  if (/^int\d*$/.test(type)) {
+    return new BN(word).fromTwos(256).toString(10)
+  }
+  const bytesMatch = /^bytes(\d+)$/.exec(type)
+  if (bytesMatch) {
+    return hexStringFromBuffer(word.slice(0, Number(bytesMatch[1])), true)
+  }
+  throw new Error(`Unsupported type: ${type}`)
+}
+
+function readWord(data: Buffer, offset: number): Buffer {
+  const word = data.slice(offset, offset + 32)
+  if (word.length !== 32) {
+    throw new Error("Unexpected end of data")
+  }
+  return word
+}
+
+function readLength(data: Buffer, offset: number): number {
+  const length = new BN(readWord(data, offset))
+  if (length.gtn(data.length)) {
+    throw new Error("Invalid offset or length")
+  }
+  return length.toNumber()
+}
+
+function selectorOf(signature: string): string {
+  return keccak256(Buffer.from(signature, "utf8")).slice(0, 4).toString("hex")
+}
+
+function formatAllowance(amount: DecodedValue): string {
+  return amount === MAX_UINT256.toString(10)
+    ? "an unlimited amount"
+    : String(amount)
+}
+
+function first(values: DecodedValue): string {
+  return Array.isArray(values) ? values[0] : values
+}
+
+function last(values: DecodedValue): string {
+  return Array.isArray(values) ? values[values.length - 1] : values
+}
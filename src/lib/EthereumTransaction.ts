@@ -0,0 +1,274 @@
+// Copyright (c) 2018-2020 WalletLink.org <https://www.walletlink.org/>
+// Copyright (c) 2018-2020 Coinbase, Inc. <https://www.coinbase.com/>
+// Licensed under the Apache License, version 2.0
+
+import BN from "bn.js"
+
+import { AccessList, AddressString, HexString, IntNumber } from "../types"
+import { ensureAddressString, hexStringFromBuffer, keccak256 } from "../util"
+import { recoverAddress } from "./ecRecover"
+import { decodeRLP, encodeRLP, RLPItem } from "./rlp"
+
+const LEGACY_TRANSACTION_TYPE = 0
+const EIP2930_TRANSACTION_TYPE = 1
+const EIP1559_TRANSACTION_TYPE = 2
+
+/**
+ * Signed legacy, EIP-2930 or EIP-1559 transaction
+ */
+export interface SignedTransaction {
+  type: IntNumber
+  // null for legacy transactions without EIP-155 replay protection
+  chainId: IntNumber | null
+  nonce: IntNumber
+  gasPrice: BN | null
+  maxPriorityFeePerGas: BN | null
+  maxFeePerGas: BN | null
+  gasLimit: BN
+  to: AddressString | null
+  value: BN
+  data: Buffer
+  accessList: AccessList | null
+  yParity: number
+  r: BN
+  s: BN
+}
+
+/**
+ * @param raw signed transaction, as passed to eth_sendRawTransaction
+ * Throws if the transaction is malformed or of an unsupported type.
+ */
+export function decodeSignedTransaction(raw: Buffer): SignedTransaction {
+  if (raw.length === 0) {
+    throw new Error("Invalid transaction: empty")
+  }
+
+  // legacy transactions are RLP lists, typed ones start with their type
+  if (raw[0] >= 0xc0) {
+    const fields = decodeList(decodeRLP(raw), 9)
+    const v = toNumber(fields[6])
+    const chainId = v >= 35 ? IntNumber((v - 35) >> 1) : null // eslint-disable-line no-bitwise
+    const yParity = chainId !== null ? (v - 35) % 2 : v - 27
+    return {
+      type: IntNumber(LEGACY_TRANSACTION_TYPE),
+      chainId,
+      nonce: IntNumber(toNumber(fields[0])),
+      gasPrice: toBN(fields[1]),
+      maxPriorityFeePerGas: null,
+      maxFeePerGas: null,
+      gasLimit: toBN(fields[2]),
+      to: toAddress(fields[3]),
+      value: toBN(fields[4]),
+      data: toBuffer(fields[5]),
+      accessList: null,
+      yParity: ensureYParity(yParity),
+      r: toBN(fields[7]),
+      s: toBN(fields[8])
+    }
+  }
+
+  const type = raw[0]
+  const payload = decodeRLP(raw.slice(1))
+
+  if (type === EIP2930_TRANSACTION_TYPE) {
+    const fields = decodeList(payload, 11)
+    return {
+      type: IntNumber(type),
+      chainId: IntNumber(toNumber(fields[0])),
+      nonce: IntNumber(toNumber(fields[1])),
+      gasPrice: toBN(fields[2]),
+      maxPriorityFeePerGas: null,
+      maxFeePerGas: null,
+      gasLimit: toBN(fields[3]),
+      to: toAddress(fields[4]),
+      value: toBN(fields[5]),
+      data: toBuffer(fields[6]),
+      accessList: toAccessList(fields[7]),
+      yParity: ensureYParity(toNumber(fields[8])),
+      r: toBN(fields[9]),
+      s: toBN(fields[10])
+    }
+  }
+
+  if (type === EIP1559_TRANSACTION_TYPE) {
+    const fields = decodeList(payload, 12)
+    return {
+      type: IntNumber(type),
+      chainId: IntNumber(toNumber(fields[0])),
+      nonce: IntNumber(toNumber(fields[1])),
+      gasPrice: null,
+      maxPriorityFeePerGas: toBN(fields[2]),
+      maxFeePerGas: toBN(fields[3]),
+      gasLimit: toBN(fields[4]),
+      to: toAddress(fields[5]),
+      value: toBN(fields[6]),
+      data: toBuffer(fields[7]),
+      accessList: toAccessList(fields[8]),
+      yParity: ensureYParity(toNumber(fields[9])),
+      r: toBN(fields[10]),
+      s: toBN(fields[11])
+    }
+  }
+
+  throw new Error(`Unsupported transaction type: ${type}`)
+}
+
+/**
+ * @param tx signed transaction
+ * returns the transaction encoded for eth_sendRawTransaction
+ */
+export function encodeSignedTransaction(tx: SignedTransaction): Buffer {
+  const signature = [fromNumber(tx.yParity), fromBN(tx.r), fromBN(tx.s)]
+  if (tx.type === LEGACY_TRANSACTION_TYPE) {
+    const v =
+      tx.chainId !== null ? tx.chainId * 2 + 35 + tx.yParity : 27 + tx.yParity
+    signature[0] = fromNumber(v)
+    return encodeRLP([...legacyFields(tx), ...signature])
+  }
+  return encodeTyped(tx.type, [...typedFields(tx), ...signature])
+}
+
+/**
+ * @param raw signed transaction, as passed to eth_sendRawTransaction
+ * returns the transaction hash
+ */
+export function hashSignedTransaction(raw: Buffer): HexString {
+  return hexStringFromBuffer(keccak256(raw), true)
+}
+
+/**
+ * returns the address that signed the transaction, or null if the signature
+ * is invalid
+ */
+export function recoverTransactionSender(
+  tx: SignedTransaction
+): AddressString | null {
+  let payload: Buffer
+  if (tx.type === LEGACY_TRANSACTION_TYPE) {
+    // EIP-155 transactions sign their chain id in place of the signature
+    const replayProtection =
+      tx.chainId !== null
+        ? [fromNumber(tx.chainId), Buffer.alloc(0), Buffer.alloc(0)]
+        : []
+    payload = encodeRLP([...legacyFields(tx), ...replayProtection])
+  } else {
+    payload = encodeTyped(tx.type, typedFields(tx))
+  }
+
+  const signature = Buffer.concat([
+    tx.r.toArrayLike(Buffer, "be", 32),
+    tx.s.toArrayLike(Buffer, "be", 32),
+    Buffer.from([tx.yParity])
+  ])
+  return recoverAddress(keccak256(payload), signature)
+}
+
+function legacyFields(tx: SignedTransaction): RLPItem[] {
+  return [
+    fromNumber(tx.nonce),
+    fromBN(tx.gasPrice!),
+    fromBN(tx.gasLimit),
+    fromAddress(tx.to),
+    fromBN(tx.value),
+    tx.data
+  ]
+}
+
+function typedFields(tx: SignedTransaction): RLPItem[] {
+  const fees =
+    tx.type === EIP1559_TRANSACTION_TYPE
+      ? [fromBN(tx.maxPriorityFeePerGas!), fromBN(tx.maxFeePerGas!)]
+      : [fromBN(tx.gasPrice!)]
+  return [
+    fromNumber(tx.chainId!),
+    fromNumber(tx.nonce),
+    ...fees,
+    fromBN(tx.gasLimit),
+    fromAddress(tx.to),
+    fromBN(tx.value),
+    tx.data,
+    (tx.accessList || []).map(entry => [
+      Buffer.from(entry.address.slice(2), "hex"),
+      entry.storageKeys.map(key => Buffer.from(key.slice(2), "hex"))
+    ])
+  ]
+}
+
+function encodeTyped(type: number, fields: RLPItem[]): Buffer {
+  return Buffer.concat([Buffer.from([type]), encodeRLP(fields)])
+}
+
+function decodeList(item: RLPItem, length: number): RLPItem[] {
+  if (!Array.isArray(item) || item.length !== length) {
+    throw new Error(`Invalid transaction: expected ${length} fields`)
+  }
+  return item
+}
+
+function toBuffer(item: RLPItem): Buffer {
+  if (!Buffer.isBuffer(item)) {
+    throw new Error("Invalid transaction: expected a byte string")
+  }
+  return item
+}
+
+function toBN(item: RLPItem): BN {
+  const buf = toBuffer(item)
+  if (buf.length > 0 && buf[0] === 0) {
+    throw new Error("Invalid transaction: integer has leading zeros")
+  }
+  return new BN(buf)
+}
+
+function toNumber(item: RLPItem): number {
+  const bn = toBN(item)
+  if (bn.bitLength() > 53) {
+    throw new Error("Invalid transaction: integer is too large")
+  }
+  return bn.toNumber()
+}
+
+function toAddress(item: RLPItem): AddressString | null {
+  const buf = toBuffer(item)
+  if (buf.length === 0) {
+    return null
+  }
+  return ensureAddressString(buf.toString("hex"))
+}
+
+function toAccessList(item: RLPItem): AccessList {
+  if (!Array.isArray(item)) {
+    throw new Error("Invalid transaction: expected an access list")
+  }
+  return item.map(entry => {
+    const [address, storageKeys] = decodeList(entry, 2)
+    if (!Array.isArray(storageKeys)) {
+      throw new Error("Invalid transaction: expected storage keys")
+    }
+    return {
+      address: ensureAddressString(toBuffer(address).toString("hex")),
+      storageKeys: storageKeys.map(key =>
+        hexStringFromBuffer(toBuffer(key), true)
+      )
+    }
+  })
+}
+
+function ensureYParity(yParity: number): number {
+  if (yParity !== 0 && yParity !== 1) {
+    throw new Error("Invalid transaction: invalid signature")
+  }
+  return yParity
+}
+
+function fromBN(bn: BN): Buffer {
+  return bn.isZero() ? Buffer.alloc(0) : bn.toArrayLike(Buffer, "be")
+}
+
+function fromNumber(num: number): Buffer {
+  return fromBN(new BN(num))
+}
+
+function fromAddress(address: AddressString | null): Buffer {
+  return address ? Buffer.from(address.slice(2), "hex") : Buffer.alloc(0)
+}
@@ -0,0 +1,291 @@
+// Copyright (c) 2018-2020 WalletLink.org <https://www.walletlink.org/>
+// Copyright (c) 2018-2020 Coinbase, Inc. <https://www.coinbase.com/>
+// Licensed under the Apache License, version 2.0
+
+import {
+  ensureAddressString,
+  ensureBuffer,
+  randomBytesHex,
+  toChecksumAddress
+} from "../util"
+
+const PREAMBLE_SUFFIX = " wants you to sign in with your Ethereum account:"
+const ADDRESS_REGEX = /^0x[a-fA-F0-9]{40}$/
+const NONCE_REGEX = /^[a-zA-Z0-9]{8,}$/
+
+/**
+ * Fields of an EIP-4361 Sign-In with Ethereum message
+ */
+export interface SiweMessage {
+  domain: string
+  address: string
+  statement?: string
+  uri: string
+  version: "1"
+  chainId: number
+  nonce: string
+  issuedAt: string
+  expirationTime?: string
+  notBefore?: string
+  requestId?: string
+  resources?: string[]
+}
+
+export interface SiweMessageExpectations {
+  domain?: string
+  address?: string
+  chainId?: number
+  nonce?: string
+  /** time to check expirationTime and notBefore against; defaults to now */
+  time?: Date
+}
+
+export function generateSiweNonce(): string {
+  return randomBytesHex(16)
+}
+
+/**
+ * @param message SIWE message fields
+ * returns the message text to be signed with personal_sign
+ */
+export function formatSiweMessage(message: SiweMessage): string {
+  const lines = [
+    `${message.domain}${PREAMBLE_SUFFIX}`,
+    message.address,
+    "",
+    ...(message.statement !== undefined ? [message.statement] : []),
+    "",
+    `URI: ${message.uri}`,
+    `Version: ${message.version}`,
+    `Chain ID: ${message.chainId}`,
+    `Nonce: ${message.nonce}`,
+    `Issued At: ${message.issuedAt}`
+  ]
+  if (message.expirationTime !== undefined) {
+    lines.push(`Expiration Time: ${message.expirationTime}`)
+  }
+  if (message.notBefore !== undefined) {
+    lines.push(`Not Before: ${message.notBefore}`)
+  }
+  if (message.requestId !== undefined) {
+    lines.push(`Request ID: ${message.requestId}`)
+  }
+  if (message.resources !== undefined) {
+    lines.push("Resources:", ...message.resources.map(r => `- ${r}`))
+  }
+  return lines.join("\n")
+}
+
+/**
+ * @param text SIWE message text
+ * returns the parsed message fields. Throws if the text is malformed.
+ */
+export function parseSiweMessage(text: string): SiweMessage {
+  const lines = text.split("\n")
+  let i = 0
+
+  const preamble = lines[i++]
+  if (!preamble || !preamble.endsWith(PREAMBLE_SUFFIX)) {
+    throw new Error("Invalid SIWE message: missing preamble")
+  }
+  const domain = preamble.slice(0, -PREAMBLE_SUFFIX.length)
+
+  const address = lines[i++]
+  if (lines[i++] !== "") {
+    throw new Error("Invalid SIWE message: expected blank line after address")
+  }
+
+  let statement: string | undefined
+  if (lines[i] !== "") {
+    statement = lines[i++]
+  }
+  if (lines[i++] !== "") {
+    throw new Error("Invalid SIWE message: expected blank line")
+  }
+
+  const readField = (tag: string, required: boolean): string | undefined => {
+    const prefix = `${tag}: `
+    const line = lines[i]
+    if (line !== undefined && line.startsWith(prefix)) {
+      i++
+      return line.slice(prefix.length)
+    }
+    if (required) {
+      throw new Error(`Invalid SIWE message: missing ${tag}`)
+    }
+    return undefined
+  }
+
+  const uri = readField("URI", true)!
+  const version = readField("Version", true)!
+  const chainId = readField("Chain ID", true)!
+  const nonce = readField("Nonce", true)!
+  const issuedAt = readField("Issued At", true)!
+  const expirationTime = readField("Expiration Time", false)
+  const notBefore = readField("Not Before", false)
+  const requestId = readField("Request ID", false)
+
+  let resources: string[] | undefined
+  if (lines[i] === "Resources:") {
+    i++
+    resources = []
+    while (i < lines.length && lines[i].startsWith("- ")) {
+      resources.push(lines[i++].slice(2))
+    }
+  }
+
+  if (i !== lines.length) {
+    throw new Error(`Invalid SIWE message: unexpected line "${lines[i]}"`)
+  }
+
+  if (version !== "1") {
+    throw new Error(`Invalid SIWE message: unsupported version ${version}`)
+  }
+
+  if (!/^[0-9]+$/.test(chainId)) {
+    throw new Error(`Invalid SIWE message: invalid chain id ${chainId}`)
+  }
+
+  const message: SiweMessage = {
+    domain,
+    address,
+    statement,
+    uri,
+    version,
+    chainId: parseInt(chainId, 10),
+    nonce,
+    issuedAt,
+    expirationTime,
+    notBefore,
+    requestId,
+    resources
+  }
+  ensureWellFormed(message)
+  return message
+}
+
+/**
+ * Throws if the message is malformed, does not match the expectations, or is
+ * not valid at the expected time
+ * @param message SIWE message fields
+ * @param expected values the message must match
+ */
+export function validateSiweMessage(
+  message: SiweMessage,
+  expected: SiweMessageExpectations = {}
+): void {
+  const { expirationTime, notBefore } = ensureWellFormed(message)
+  const address = ensureAddressString(message.address)
+
+  if (expected.domain !== undefined && message.domain !== expected.domain) {
+    throw new Error(`SIWE message domain mismatch: ${message.domain}`)
+  }
+
+  if (
+    expected.address !== undefined &&
+    address !== ensureAddressString(expected.address)
+  ) {
+    throw new Error(`SIWE message address mismatch: ${message.address}`)
+  }
+
+  if (expected.chainId !== undefined && message.chainId !== expected.chainId) {
+    throw new Error(`SIWE message chain id mismatch: ${message.chainId}`)
+  }
+
+  if (expected.nonce !== undefined && message.nonce !== expected.nonce) {
+    throw new Error("SIWE message nonce mismatch")
+  }
+
+  const time = (expected.time ?? new Date()).getTime()
+  if (expirationTime !== undefined && time >= expirationTime) {
+    throw new Error("SIWE message has expired")
+  }
+  if (notBefore !== undefined && time < notBefore) {
+    throw new Error("SIWE message is not yet valid")
+  }
+}
+
+/**
+ * Parses and validates a signed SIWE message, and checks that it was signed by
+ * the address it names
+ * @param text SIWE message text
+ * @param signature personal_sign signature of the text
+ * @param recoverAddress recovers the signer of a personal_sign message, e.g.
+ * through personal_ecRecover
+ * @param expected values the message must match
+ * returns the parsed message
+ */
+export async function verifySiweMessage(
+  text: string,
+  signature: string,
+  recoverAddress: (message: Buffer, signature: Buffer) => Promise<string>,
+  expected: SiweMessageExpectations = {}
+): Promise<SiweMessage> {
+  const message = parseSiweMessage(text)
+  validateSiweMessage(message, expected)
+
+  const signer = await recoverAddress(
+    Buffer.from(text, "utf8"),
+    ensureBuffer(signature)
+  )
+  if (ensureAddressString(signer) !== ensureAddressString(message.address)) {
+    throw new Error(`SIWE message was signed by ${signer}`)
+  }
+  return message
+}
+
+/**
+ * Throws if any field is malformed
+ * returns the parsed expirationTime and notBefore timestamps
+ */
+function ensureWellFormed(message: SiweMessage): {
+  expirationTime?: number
+  notBefore?: number
+} {
+  if (!message.domain) {
+    throw new Error("Invalid SIWE message: domain is required")
+  }
+
+  if (!ADDRESS_REGEX.test(message.address)) {
+    throw new Error(`Invalid SIWE message: invalid address ${message.address}`)
+  }
+  const address = ensureAddressString(message.address)
+  const isMixedCase = message.address !== message.address.toLowerCase()
+  if (isMixedCase && toChecksumAddress(address) !== message.address) {
+    throw new Error("Invalid SIWE message: address checksum mismatch")
+  }
+
+  if (message.statement !== undefined && message.statement.includes("\n")) {
+    throw new Error("Invalid SIWE message: statement must be a single line")
+  }
+
+  if (!NONCE_REGEX.test(message.nonce)) {
+    throw new Error(
+      "Invalid SIWE message: nonce must be at least 8 alphanumeric characters"
+    )
+  }
+
+  const issuedAt = parseTimestamp("Issued At", message.issuedAt)
+  const expirationTime =
+    message.expirationTime !== undefined
+      ? parseTimestamp("Expiration Time", message.expirationTime)
+      : undefined
+  const notBefore =
+    message.notBefore !== undefined
+      ? parseTimestamp("Not Before", message.notBefore)
+      : undefined
+
+  if (expirationTime !== undefined && expirationTime <= issuedAt) {
+    throw new Error("Invalid SIWE message: expires before it was issued")
+  }
+
+  return { expirationTime, notBefore }
+}
+
+function parseTimestamp(field: string, value: string): number {
+  const time = Date.parse(value)
+  if (isNaN(time)) {
+    throw new Error(`Invalid SIWE message: invalid ${field} ${value}`)
+  }
+  return time
+}
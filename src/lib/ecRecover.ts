@@ -0,0 +1,64 @@
+// Copyright (c) 2018-2020 WalletLink.org <https://www.walletlink.org/>
+// Copyright (c) 2018-2020 Coinbase, Inc. <https://www.coinbase.com/>
+// Licensed under the Apache License, version 2.0
+
+import BN from "bn.js"
+import { ec as EC } from "elliptic"
+
+import { AddressString } from "../types"
+import { ensureAddressString, keccak256 } from "../util"
+
+const secp256k1 = new EC("secp256k1")
+// order of the curve
+const N = new BN(secp256k1.n!.toArray())
+// signatures with s above n / 2 are malleable and rejected as in EIP-2
+const HALF_N = N.shrn(1)
+
+/**
+ * @param message message as signed by personal_sign
+ * returns the hash that was signed
+ */
+export function hashPersonalMessage(message: Buffer): Buffer {
+  const prefix = Buffer.from(
+    `\u0019Ethereum Signed Message:\n${message.length}`,
+    "utf8"
+  )
+  return keccak256(Buffer.concat([prefix, message]))
+}
+
+/**
+ * @param hash 32-byte hash that was signed
+ * @param signature 65-byte r, s, v signature
+ * returns the address of the signer, or null if the signature is invalid or
+ * malleable
+ */
+export function recoverAddress(
+  hash: Buffer,
+  signature: Buffer
+): AddressString | null {
+  if (hash.length !== 32 || signature.length !== 65) {
+    return null
+  }
+
+  const r = new BN(signature.slice(0, 32))
+  const s = new BN(signature.slice(32, 64))
+  const v = signature[64] >= 27 ? signature[64] - 27 : signature[64]
+  if (v > 1 || r.isZero() || r.gte(N) || s.isZero() || s.gt(HALF_N)) {
+    return null
+  }
+
+  let publicKey: Buffer
+  try {
+    const point = secp256k1.recoverPubKey(
+      hash,
+      { r: signature.slice(0, 32), s: signature.slice(32, 64) },
+      v
+    )
+    // uncompressed encoding, without the leading 0x04
+    publicKey = Buffer.from(point.encode("array", false)).slice(1)
+  } catch {
+    // r is not the x coordinate of a point on the curve
+    return null
+  }
+  return ensureAddressString(keccak256(publicKey).slice(-20).toString("hex"))
+}
@@ -0,0 +1,116 @@
+// Copyright (c) 2018-2020 WalletLink.org <https://www.walletlink.org/>
+// Copyright (c) 2018-2020 Coinbase, Inc. <https://www.coinbase.com/>
+// Licensed under the Apache License, version 2.0
+
+import nacl from "tweetnacl"
+
+export const ENCRYPTION_VERSION = "x25519-xsalsa20-poly1305"
+
+/**
+ * Data encrypted for an eth_getEncryptionPublicKey key, as eth_decrypt expects
+ * it once JSON and hex encoded. Values are base64 encoded.
+ */
+export interface EncryptedData {
+  version: string
+  nonce: string
+  ephemPublicKey: string
+  ciphertext: string
+}
+
+/**
+ * Encrypts data so that only the holder of the key can decrypt it, using an
+ * ephemeral key pair
+ * @param publicKey base64 encoded key, as returned by eth_getEncryptionPublicKey
+ * @param data message to encrypt
+ */
+export function encryptForPublicKey(
+  publicKey: string,
+  data: string
+): EncryptedData {
+  const recipientKey = Buffer.from(publicKey, "base64")
+  if (recipientKey.length !== nacl.box.publicKeyLength) {
+    throw new Error("Invalid encryption public key")
+  }
+  const ephemeralKeyPair = nacl.box.keyPair()
+  const nonce = nacl.randomBytes(nacl.box.nonceLength)
+  const ciphertext = nacl.box(
+    Buffer.from(data, "utf8"),
+    nonce,
+    recipientKey,
+    ephemeralKeyPair.secretKey
+  )
+
+  return {
+    version: ENCRYPTION_VERSION,
+    nonce: Buffer.from(nonce).toString("base64"),
+    ephemPublicKey: Buffer.from(ephemeralKeyPair.publicKey).toString("base64"),
+    ciphertext: Buffer.from(ciphertext).toString("base64")
+  }
+}
+
+/**
+ * @param encrypted data encrypted by encryptForPublicKey
+ * @param secretKey 32-byte secret key the data was encrypted for
+ * Throws if the data was not encrypted for the key or was tampered with.
+ */
+export function decryptWithSecretKey(
+  encrypted: EncryptedData,
+  secretKey: Buffer
+): string {
+  if (encrypted.version !== ENCRYPTION_VERSION) {
+    throw new Error(`Unsupported encryption version: ${encrypted.version}`)
+  }
+  const nonce = Buffer.from(encrypted.nonce, "base64")
+  const ephemPublicKey = Buffer.from(encrypted.ephemPublicKey, "base64")
+  if (
+    nonce.length !== nacl.box.nonceLength ||
+    ephemPublicKey.length !== nacl.box.publicKeyLength
+  ) {
+    throw new Error("Invalid encrypted data")
+  }
+  const message = nacl.box.open(
+    Buffer.from(encrypted.ciphertext, "base64"),
+    nonce,
+    ephemPublicKey,
+    secretKey
+  )
+  if (!message) {
+    throw new Error("Failed to decrypt: authentication failed")
+  }
+  return Buffer.from(message).toString("utf8")
+}
+
+/**
+ * @param data JSON encoded EncryptedData, as passed to eth_decrypt
+ * Throws if the data is not JSON encoded EncryptedData of a supported version.
+ */
+export function parseEncryptedData(data: Buffer): EncryptedData {
+  let encrypted: Partial<EncryptedData>
+  try {
+    encrypted = JSON.parse(data.toString("utf8"))
+  } catch (err) {
+    throw new Error("Encrypted data is not valid JSON")
+  }
+  if (encrypted?.version !== ENCRYPTION_VERSION) {
+    throw new Error(
+      `Unsupported encryption version: ${String(encrypted?.version)}`
+    )
+  }
+  if (
+    typeof encrypted.nonce !== "string" ||
+    typeof encrypted.ephemPublicKey !== "string" ||
+    typeof encrypted.ciphertext !== "string"
+  ) {
+    throw new Error("Encrypted data is missing fields")
+  }
+  return encrypted as EncryptedData
+}
+
+/**
+ * @param secretKey 32-byte secret key
+ * returns the base64 encoded public key data is encrypted for
+ */
+export function encryptionPublicKeyFromSecretKey(secretKey: Buffer): string {
+  const { publicKey } = nacl.box.keyPair.fromSecretKey(secretKey)
+  return Buffer.from(publicKey).toString("base64")
+}
@@ -0,0 +1,109 @@
+// Copyright (c) 2018-2020 WalletLink.org <https://www.walletlink.org/>
+// Copyright (c) 2018-2020 Coinbase, Inc. <https://www.coinbase.com/>
+// Licensed under the Apache License, version 2.0
+
+// byte strings and lists of them, as encoded by RLP
+export type RLPItem = Buffer | RLPItem[]
+
+export function encodeRLP(item: RLPItem): Buffer {
+  if (Buffer.isBuffer(item)) {
+    if (item.length === 1 && item[0] < 0x80) {
+      return item
+    }
+    return Buffer.concat([encodeLength(item.length, 0x80), item])
+  }
+  const payload = Buffer.concat(item.map(encodeRLP))
+  return Buffer.concat([encodeLength(payload.length, 0xc0), payload])
+}
+
+/**
+ * Throws if the data is not exactly one canonically encoded item
+ */
+export function decodeRLP(data: Buffer): RLPItem {
+  const { item, end } = decodeItem(data, 0)
+  if (end !== data.length) {
+    throw new Error("Invalid RLP: trailing bytes")
+  }
+  return item
+}
+
+function encodeLength(length: number, offset: number): Buffer {
+  if (length < 56) {
+    return Buffer.from([offset + length])
+  }
+  const lengthBytes = Buffer.from(prependZeroIfOdd(length.toString(16)), "hex")
+  return Buffer.concat([
+    Buffer.from([offset + 55 + lengthBytes.length]),
+    lengthBytes
+  ])
+}
+
+function decodeItem(
+  data: Buffer,
+  start: number
+): { item: RLPItem; end: number } {
+  if (start >= data.length) {
+    throw new Error("Invalid RLP: unexpected end of data")
+  }
+  const prefix = data[start]
+
+  if (prefix < 0x80) {
+    return { item: data.slice(start, start + 1), end: start + 1 }
+  }
+
+  const isList = prefix >= 0xc0
+  const { offset, length } = decodeLength(data, start, isList ? 0xc0 : 0x80)
+  const end = offset + length
+
+  if (!isList) {
+    const item = data.slice(offset, end)
+    if (length === 1 && item[0] < 0x80) {
+      throw new Error("Invalid RLP: single byte should be encoded as itself")
+    }
+    return { item, end }
+  }
+
+  const items: RLPItem[] = []
+  let position = offset
+  while (position < end) {
+    const decoded = decodeItem(data, position)
+    items.push(decoded.item)
+    position = decoded.end
+  }
+  if (position !== end) {
+    throw new Error("Invalid RLP: list length mismatch")
+  }
+  return { item: items, end: position }
+}
+
+function decodeLength(
+  data: Buffer,
+  start: number,
+  base: number
+): { offset: number; length: number } {
+  const prefix = data[start]
+  let offset = start + 1
+  let length = prefix - base
+
+  if (length > 55) {
+    const lengthOfLength = length - 55
+    const lengthBytes = data.slice(offset, offset + lengthOfLength)
+    if (lengthBytes.length !== lengthOfLength || lengthBytes[0] === 0) {
+      throw new Error("Invalid RLP: malformed length")
+    }
+    length = parseInt(lengthBytes.toString("hex"), 16)
+    if (length < 56) {
+      throw new Error("Invalid RLP: length should use the short form")
+    }
+    offset += lengthOfLength
+  }
+
+  if (offset + length > data.length) {
+    throw new Error("Invalid RLP: unexpected end of data")
+  }
+  return { offset, length }
+}
+
+function prependZeroIfOdd(hex: string): string {
+  return hex.length % 2 === 1 ? `0${hex}` : hex
+}
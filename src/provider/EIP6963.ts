@@ -0,0 +1,75 @@
+// Copyright (c) 2018-2020 WalletLink.org <https://www.walletlink.org/>
+// Copyright (c) 2018-2020 Coinbase, Inc. <https://www.coinbase.com/>
+// Licensed under the Apache License, version 2.0
+
+import QRLogo from "../components/icons/QRLogo"
+import { uint8ArrayToHex } from "../util"
+import { Web3Provider } from "./Web3Provider"
+
+const ANNOUNCE_PROVIDER_EVENT = "eip6963:announceProvider"
+const REQUEST_PROVIDER_EVENT = "eip6963:requestProvider"
+
+export interface EIP6963ProviderInfo {
+  /** UUIDv4 unique to the wallet session for the lifetime of the page */
+  uuid: string
+  name: string
+  /** RFC-2397 data URI of a square image */
+  icon: string
+  /** reverse DNS identifier of the wallet */
+  rdns: string
+}
+
+export interface EIP6963ProviderDetail {
+  info: EIP6963ProviderInfo
+  provider: Web3Provider
+}
+
+export const DEFAULT_PROVIDER_INFO: Omit<EIP6963ProviderInfo, "uuid"> = {
+  name: "Coinbase Wallet",
+  icon: `data:image/svg+xml,${encodeURIComponent(QRLogo)}`,
+  rdns: "com.coinbase.wallet"
+}
+
+/**
+ * Announces the provider to dapps implementing EIP-6963 discovery, and
+ * re-announces it whenever a dapp dispatches eip6963:requestProvider.
+ * @param provider provider to announce
+ * @param info overrides for the default provider info
+ * @returns a function that stops responding to discovery requests
+ */
+export function announceProvider(
+  provider: Web3Provider,
+  info: Partial<EIP6963ProviderInfo> = {}
+): () => void {
+  const detail: EIP6963ProviderDetail = Object.freeze({
+    info: Object.freeze({
+      ...DEFAULT_PROVIDER_INFO,
+      ...info,
+      uuid: info.uuid ?? randomUUID()
+    }),
+    provider
+  })
+
+  const announce = () => {
+    window.dispatchEvent(new CustomEvent(ANNOUNCE_PROVIDER_EVENT, { detail }))
+  }
+
+  announce()
+  window.addEventListener(REQUEST_PROVIDER_EVENT, announce)
+  return () => window.removeEventListener(REQUEST_PROVIDER_EVENT, announce)
+}
+
+export function randomUUID(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(16))
+  // set version (4) and variant (10xx) bits per RFC 4122
+  bytes[6] = (bytes[6] & 0x0f) | 0x40 // eslint-disable-line no-bitwise
+  bytes[8] = (bytes[8] & 0x3f) | 0x80 // eslint-disable-line no-bitwise
+  const hex = uint8ArrayToHex(bytes)
+  return [
+    hex.slice(0, 8),
+    hex.slice(8, 12),
+    hex.slice(12, 16),
+    hex.slice(16, 20),
+    hex.slice(20)
+  ].join("-")
+}
@@ -0,0 +1,181 @@
+// Copyright (c) 2018-2020 WalletLink.org <https://www.walletlink.org/>
+// Copyright (c) 2018-2020 Coinbase, Inc. <https://www.coinbase.com/>
+// Licensed under the Apache License, version 2.0
+
+import BN from "bn.js"
+
+import { EthereumChain } from "../EthereumChain"
+import { EthereumTransactionParams } from "../relay/EthereumTransactionParams"
+import { IntNumber } from "../types"
+import {
+  ensureBN,
+  ensureIntNumber,
+  hexStringFromBuffer,
+  hexStringFromIntNumber
+} from "../util"
+
+// number of recent blocks priority fees are sampled from
+const FEE_HISTORY_BLOCKS = 10
+// percentiles of the priority fees paid in recent blocks
+const PRIORITY_FEE_PERCENTILES = [10, 50, 90]
+// percentages of the node's suggested gas price, for legacy chains
+const GAS_PRICE_PERCENTAGES = [90, 100, 125]
+
+export type FeeSpeed = "slow" | "normal" | "fast"
+
+/**
+ * Fees per gas in wei. EIP-1559 chains have maxFeePerGas and
+ * maxPriorityFeePerGas, legacy chains have gasPrice.
+ */
+export interface FeeEstimate {
+  maxFeePerGas: BN | null
+  maxPriorityFeePerGas: BN | null
+  gasPrice: BN | null
+}
+
+export type FeeEstimates = Record<FeeSpeed, FeeEstimate>
+
+/**
+ * Estimates fees, gas limits and nonces for transactions from a node
+ */
+export class FeeEstimator {
+  private readonly request: (method: string, params: unknown[]) => Promise<any>
+
+  /**
+   * @param request makes a JSON-RPC request to the node and returns the result
+   */
+  constructor(request: (method: string, params: unknown[]) => Promise<any>) {
+    this.request = request
+  }
+
+  /**
+   * @param chainId chain to estimate fees for
+   * returns slow, normal and fast fees, based on the priority fees paid in
+   * recent blocks, or on the node's suggested gas price on legacy chains
+   */
+  public async estimateFees(chainId: IntNumber): Promise<FeeEstimates> {
+    if (EthereumChain.supportsEIP1559(chainId)) {
+      const fees = await this.estimateEIP1559Fees()
+      if (fees) {
+        return fees
+      }
+    }
+    return this.estimateLegacyFees()
+  }
+
+  /**
+   * Fills in the gas limit, fees and nonce of a transaction where missing.
+   * Fees are left alone if any fee field is set.
+   * @param tx transaction to complete
+   * @param speed fees to use
+   * returns the completed transaction
+   */
+  public async fillTransaction(
+    tx: EthereumTransactionParams,
+    speed: FeeSpeed
+  ): Promise<EthereumTransactionParams> {
+    const hasFees =
+      tx.gasPriceInWei !== null ||
+      tx.maxFeePerGas !== null ||
+      tx.maxPriorityFeePerGas !== null
+    // transactions of type 0 and 1 are priced with gasPrice
+    const isLegacy = tx.type !== null && tx.type < 2
+
+    const [gasLimit, nonce, fees] = await Promise.all([
+      tx.gasLimit ?? this.estimateGas(tx),
+      tx.nonce ?? this.getPendingNonce(tx),
+      hasFees
+        ? null
+        : isLegacy
+        ? this.estimateLegacyFees()
+        : this.estimateFees(tx.chainId)
+    ])
+
+    const filled = { ...tx, gasLimit, nonce }
+    if (fees) {
+      const { maxFeePerGas, maxPriorityFeePerGas, gasPrice } = fees[speed]
+      filled.maxFeePerGas = maxFeePerGas
+      filled.maxPriorityFeePerGas = maxPriorityFeePerGas
+      filled.gasPriceInWei = gasPrice
+    }
+    return filled
+  }
+
+  private async estimateEIP1559Fees(): Promise<FeeEstimates | null> {
+    let feeHistory: { baseFeePerGas?: string[]; reward?: string[][] }
+    try {
+      feeHistory = await this.request("eth_feeHistory", [
+        hexStringFromIntNumber(IntNumber(FEE_HISTORY_BLOCKS)),
+        "latest",
+        PRIORITY_FEE_PERCENTILES
+      ])
+    } catch {
+      // the node does not support eth_feeHistory, fall back to gasPrice
+      return null
+    }
+
+    const { baseFeePerGas, reward } = feeHistory || {}
+    if (!baseFeePerGas || baseFeePerGas.length === 0 || !reward) {
+      return null
+    }
+    // the last entry is the base fee of the next block
+    const baseFee = ensureBN(baseFeePerGas[baseFeePerGas.length - 1])
+
+    return makeFeeEstimates(i => {
+      const maxPriorityFeePerGas = median(reward.map(r => ensureBN(r[i])))
+      // leave room for the base fee to double before the transaction is mined
+      const maxFeePerGas = baseFee.muln(2).add(maxPriorityFeePerGas)
+      return { maxFeePerGas, maxPriorityFeePerGas, gasPrice: null }
+    })
+  }
+
+  private async estimateLegacyFees(): Promise<FeeEstimates> {
+    const gasPrice = ensureBN(await this.request("eth_gasPrice", []))
+    return makeFeeEstimates(i => ({
+      maxFeePerGas: null,
+      maxPriorityFeePerGas: null,
+      gasPrice: gasPrice.muln(GAS_PRICE_PERCENTAGES[i]).divn(100)
+    }))
+  }
+
+  private async estimateGas(tx: EthereumTransactionParams): Promise<BN> {
+    const result = await this.request("eth_estimateGas", [
+      {
+        from: tx.fromAddress,
+        to: tx.toAddress ?? undefined,
+        value: `0x${tx.weiValue.toString(16)}`,
+        data: hexStringFromBuffer(tx.data, true),
+        accessList: tx.accessList ?? undefined
+      }
+    ])
+    return ensureBN(result)
+  }
+
+  private async getPendingNonce(
+    tx: EthereumTransactionParams
+  ): Promise<IntNumber> {
+    const result = await this.request("eth_getTransactionCount", [
+      tx.fromAddress,
+      "pending"
+    ])
+    return ensureIntNumber(result)
+  }
+}
+
+function makeFeeEstimates(
+  makeEstimate: (speedIndex: number) => FeeEstimate
+): FeeEstimates {
+  return {
+    slow: makeEstimate(0),
+    normal: makeEstimate(1),
+    fast: makeEstimate(2)
+  }
+}
+
+function median(values: BN[]): BN {
+  if (values.length === 0) {
+    return new BN(0)
+  }
+  const sorted = [...values].sort((a, b) => a.cmp(b))
+  return sorted[Math.floor(sorted.length / 2)]
+}
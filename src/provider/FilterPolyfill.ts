@@ -10,14 +10,19 @@ import {
   isHexString,
   range
 } from "../util"
-import { JSONRPCRequest, JSONRPCResponse } from "./JSONRPC"
-import { Web3Provider } from "./Web3Provider"
-
-const TIMEOUT = 5 * 60 * 1000 // 5 minutes
-const JSONRPC_TEMPLATE: { jsonrpc: "2.0"; id: number } = {
-  jsonrpc: "2.0",
-  id: 0
-}
+import { JSONRPC_TEMPLATE, JSONRPCRequest, JSONRPCResponse } from "./JSONRPC"
+import { DROPPED_TRANSACTION_TIMEOUT } from "./TransactionTracker"
+import { sendAsyncPromise, Web3Provider } from "./Web3Provider"
+
+export const DEFAULT_FILTER_TIMEOUT = 5 * 60 * 1000 // 5 minutes
+// EIP-1474 limit exceeded
+const LIMIT_EXCEEDED_ERROR_CODE = -32005
+// messages public nodes reject eth_getLogs queries spanning too many blocks
+// or matching too many logs with, e.g. "query returned more than 10000 results"
+const LOGS_LIMIT_ERROR_REGEX =
+  /(more than \d+ results|block range|range (is )?too|limit exceeded|too many|response size|exceed)/i
+// how many blocks back reported blocks are checked for chain reorganizations
+const MAX_REORG_DEPTH = 64
 
 type RawHexBlockHeight = HexString | "earliest" | "latest" | "pending"
 type HexBlockHeight = HexString | "latest"
@@ -28,6 +33,7 @@ export interface FilterParam {
   toBlock: RawHexBlockHeight | undefined
   address?: string | string[]
   topics?: (string | string[])[]
+  blockHash?: string
 }
 
 export interface Filter {
@@ -37,17 +43,58 @@ export interface Filter {
   topics: (string | string[])[]
 }
 
+export interface Log {
+  blockNumber: HexString
+  blockHash: HexString
+  removed?: boolean
+  [key: string]: unknown
+}
+
+// eth_getLogs request the polyfill sends for a single range of blocks, tagged
+// so that the provider forwards it to the node. The provider's middleware
+// pipeline copies the fields of requests, the tag included.
+interface LogRangeRequest extends JSONRPCRequest<[FilterParam]> {
+  logRange: true
+}
+
+// block reported to a filter, and the logs reported from it
+interface ReportedBlock {
+  hash: HexString
+  logs: Log[]
+}
+
 export class FilterPolyfill {
   private readonly provider: Web3Provider
   private readonly logFilters = new Map<IntNumber, Filter>() // <id, filter>
   private readonly blockFilters = new Set<IntNumber>() // <id>
   private readonly pendingTransactionFilters = new Set<IntNumber>() // <id, true>
   private readonly cursors = new Map<IntNumber, IntNumber>() // <id, cursor>
+  // <id, <block number, block>>
+  private readonly reportedBlocks = new Map<
+    IntNumber,
+    Map<IntNumber, ReportedBlock>
+  >()
   private readonly timeouts = new Map<IntNumber, number>() // <id, setTimeout id>
+  // <hash, submission time> of transactions submitted through the provider
+  private readonly pendingTransactions = new Map<HexString, number>()
+  // <id, hashes of pending transactions reported>
+  private readonly reportedTransactions = new Map<IntNumber, Set<HexString>>()
+  // whether the node serves the transactions of its pending block
+  private pendingBlockSupported = true
+  private readonly timeout: number
+  // number of blocks log queries are split into, once the node has rejected
+  // a larger range
+  private logRangeLimit: number | null = null
   private nextFilterId = IntNumber(1)
 
-  constructor(provider: Web3Provider) {
+  /**
+   * @param provider provider to poll
+   * @param timeout time in milliseconds after which filters that are not
+   * polled are uninstalled
+   */
+  constructor(provider: Web3Provider, timeout = DEFAULT_FILTER_TIMEOUT) {
     this.provider = provider
+    this.timeout = timeout
   }
 
   public async newFilter(param: FilterParam): Promise<HexString> {
@@ -85,10 +132,20 @@ export class FilterPolyfill {
       cursor
     )
     this.pendingTransactionFilters.add(id)
+    this.reportedTransactions.set(id, new Set(this.pendingTransactions.keys()))
     this.setFilterTimeout(id)
     return hexStringFromIntNumber(id)
   }
 
+  /**
+   * Reports a transaction submitted through the provider to pending
+   * transaction filters, until it is mined
+   * @param hash transaction hash
+   */
+  public addPendingTransaction(hash: HexString): void {
+    this.pendingTransactions.set(ensureHexString(hash, true), Date.now())
+  }
+
   public uninstallFilter(filterId: HexString): boolean {
     const id = intNumberFromHexString(filterId)
     console.log(`Uninstalling filter (${id})`)
@@ -118,33 +175,59 @@ export class FilterPolyfill {
     if (!filter) {
       return filterNotFoundError()
     }
-    return this.sendAsyncPromise({
-      ...JSONRPC_TEMPLATE,
-      method: "eth_getLogs",
-      params: [paramFromFilter(filter)]
-    })
+    return this.getLogs(paramFromFilter(filter))
   }
 
-  private makeFilterId(): IntNumber {
-    return IntNumber(++this.nextFilterId)
+  /**
+   * Fetches logs matching the filter parameters. Block ranges the node rejects
+   * as too large are split into smaller ranges, and the logs are returned in
+   * block order.
+   * @param param eth_getLogs filter parameters
+   */
+  public async getLogs(param: FilterParam): Promise<JSONRPCResponse> {
+    if (param.blockHash !== undefined) {
+      return this.requestLogs(param)
+    }
+
+    const filter = filterFromParam(param)
+    const currentBlockHeight = await this.getCurrentBlockHeight()
+    const fromBlock =
+      filter.fromBlock === "latest" ? currentBlockHeight : filter.fromBlock
+    const toBlock =
+      filter.toBlock === "latest" ? currentBlockHeight : filter.toBlock
+    if (fromBlock > toBlock) {
+      return emptyResult()
+    }
+
+    const logs = await this.getLogsInRange(filter, fromBlock, toBlock)
+    return { ...JSONRPC_TEMPLATE, result: logs }
   }
 
-  private sendAsyncPromise(request: JSONRPCRequest): Promise<JSONRPCResponse> {
-    return new Promise((resolve, reject) => {
-      this.provider.sendAsync(request, (err, response) => {
-        if (err) {
-          return reject(err)
-        }
-        if (Array.isArray(response) || response == null) {
-          return reject(
-            new Error(
-              `unexpected response received: ${JSON.stringify(response)}`
-            )
-          )
-        }
-        resolve(response)
-      })
-    })
+  /**
+   * @param request request sent through the provider
+   * returns whether the request was made by the polyfill for a single range of
+   * logs, and should be forwarded to the node
+   */
+  public isLogRangeRequest(request: JSONRPCRequest): boolean {
+    return (request as Partial<LogRangeRequest>).logRange === true
+  }
+
+  /**
+   * Uninstalls all filters and cancels their timeouts
+   */
+  public destroy(): void {
+    this.timeouts.forEach(timeout => window.clearTimeout(timeout))
+    this.timeouts.clear()
+    this.logFilters.clear()
+    this.blockFilters.clear()
+    this.pendingTransactionFilters.clear()
+    this.cursors.clear()
+    this.reportedBlocks.clear()
+    this.reportedTransactions.clear()
+  }
+
+  private makeFilterId(): IntNumber {
+    return IntNumber(++this.nextFilterId)
   }
 
   private deleteFilter(id: IntNumber): void {
@@ -153,13 +236,20 @@ export class FilterPolyfill {
     this.blockFilters.delete(id)
     this.pendingTransactionFilters.delete(id)
     this.cursors.delete(id)
+    this.reportedBlocks.delete(id)
+    this.reportedTransactions.delete(id)
+    window.clearTimeout(this.timeouts.get(id))
     this.timeouts.delete(id)
   }
 
   private async getLogFilterChanges(id: IntNumber): Promise<JSONRPCResponse> {
     const filter = this.logFilters.get(id)
+    if (!this.cursors.has(id) || !filter) {
+      return filterNotFoundError()
+    }
+    const removedLogs = await this.rewindReorganizedBlocks(id)
     const cursorPosition = this.cursors.get(id)
-    if (!cursorPosition || !filter) {
+    if (!cursorPosition) {
       return filterNotFoundError()
     }
     const currentBlockHeight = await this.getCurrentBlockHeight()
@@ -167,45 +257,106 @@ export class FilterPolyfill {
       filter.toBlock === "latest" ? currentBlockHeight : filter.toBlock
 
     if (cursorPosition > currentBlockHeight) {
-      return emptyResult()
+      return { ...JSONRPC_TEMPLATE, result: removedLogs }
     }
     if (cursorPosition > filter.toBlock) {
-      return emptyResult()
+      return { ...JSONRPC_TEMPLATE, result: removedLogs }
     }
 
     console.log(
       `Fetching logs from ${cursorPosition} to ${toBlock} for filter ${id}`
     )
 
-    const response = await this.sendAsyncPromise({
-      ...JSONRPC_TEMPLATE,
-      method: "eth_getLogs",
-      params: [
-        paramFromFilter({
-          ...filter,
-          fromBlock: cursorPosition,
-          toBlock
-        })
-      ]
-    })
+    const logs = await this.getLogsInRange(filter, cursorPosition, toBlock)
 
-    if (Array.isArray(response.result)) {
-      const blocks = response.result.map(log =>
-        intNumberFromHexString(log.blockNumber || "0x0")
+    // remember the blocks reported, to detect if they are reorganized away
+    logs.forEach(log =>
+      this.addReportedBlock(
+        id,
+        intNumberFromHexString(log.blockNumber),
+        ensureHexString(log.blockHash),
+        log
       )
-      const highestBlock = Math.max(...blocks)
-      if (highestBlock && highestBlock > cursorPosition) {
-        const newCursorPosition = IntNumber(highestBlock + 1)
-        console.log(
-          `Moving cursor position for filter (${id}) from ${cursorPosition} to ${newCursorPosition}`
-        )
-        this.cursors.set(id, newCursorPosition)
+    )
+    const toBlockHash = await this.getBlockHashByNumber(toBlock)
+    if (toBlockHash) {
+      this.addReportedBlock(id, toBlock, toBlockHash)
+    }
+
+    // the whole range has been fetched
+    const newCursorPosition = IntNumber(toBlock + 1)
+    console.log(
+      `Moving cursor position for filter (${id}) from ${cursorPosition} to ${newCursorPosition}`
+    )
+    this.cursors.set(id, newCursorPosition)
+    return { ...JSONRPC_TEMPLATE, result: [...removedLogs, ...logs] }
+  }
+
+  private async getLogsInRange(
+    filter: Filter,
+    fromBlock: IntNumber,
+    toBlock: IntNumber
+  ): Promise<Log[]> {
+    const logs: Log[] = []
+    let start = fromBlock
+    while (start <= toBlock) {
+      const end =
+        this.logRangeLimit === null
+          ? toBlock
+          : IntNumber(Math.min(toBlock, start + this.logRangeLimit - 1))
+      logs.push(...(await this.getLogsInChunk(filter, start, end)))
+      start = IntNumber(end + 1)
+    }
+    return logs
+  }
+
+  private async getLogsInChunk(
+    filter: Filter,
+    fromBlock: IntNumber,
+    toBlock: IntNumber
+  ): Promise<Log[]> {
+    try {
+      const response = await this.requestLogs(
+        paramFromFilter({ ...filter, fromBlock, toBlock })
+      )
+      if (response.error) {
+        throw response.error
+      }
+      return Array.isArray(response.result) ? response.result : []
+    } catch (err) {
+      if (fromBlock >= toBlock || !isLogsLimitError(err)) {
+        throw err
       }
+
+      // bisect the range, and query the halves in order
+      const middle = IntNumber(Math.floor((fromBlock + toBlock) / 2))
+      const limit = middle - fromBlock + 1
+      this.logRangeLimit = Math.min(this.logRangeLimit ?? limit, limit)
+      const lower = await this.getLogsInChunk(filter, fromBlock, middle)
+      const upper = await this.getLogsInChunk(
+        filter,
+        IntNumber(middle + 1),
+        toBlock
+      )
+      return [...lower, ...upper]
     }
-    return response
+  }
+
+  private requestLogs(param: FilterParam): Promise<JSONRPCResponse> {
+    const request: LogRangeRequest = {
+      ...JSONRPC_TEMPLATE,
+      method: "eth_getLogs",
+      params: [param],
+      logRange: true
+    }
+    return sendAsyncPromise(this.provider, request)
   }
 
   private async getBlockFilterChanges(id: IntNumber): Promise<JSONRPCResponse> {
+    if (!this.cursors.has(id)) {
+      return filterNotFoundError()
+    }
+    await this.rewindReorganizedBlocks(id)
     const cursorPosition = this.cursors.get(id)
     if (!cursorPosition) {
       return filterNotFoundError()
@@ -218,14 +369,23 @@ export class FilterPolyfill {
     console.log(
       `Fetching blocks from ${cursorPosition} to ${currentBlockHeight} for filter (${id})`
     )
-    const blocks = (
-      await Promise.all(
-        // eslint-disable-next-line @typescript-eslint/restrict-plus-operands
-        range(cursorPosition, currentBlockHeight + 1).map(i =>
-          this.getBlockHashByNumber(IntNumber(i))
-        )
+    const hashes = await Promise.all(
+      // eslint-disable-next-line @typescript-eslint/restrict-plus-operands
+      range(cursorPosition, currentBlockHeight + 1).map(i =>
+        this.getBlockHashByNumber(IntNumber(i))
       )
-    ).filter(hash => !!hash)
+    )
+    // blocks the node did not return are fetched again on the next call, so
+    // only the blocks before the first missing one are reported
+    const missing = hashes.indexOf(null)
+    const blocks = (
+      missing === -1 ? hashes : hashes.slice(0, missing)
+    ) as HexString[]
+
+    blocks.forEach((hash, i) =>
+      // eslint-disable-next-line @typescript-eslint/restrict-plus-operands
+      this.addReportedBlock(id, IntNumber(cursorPosition + i), hash)
+    )
 
     // eslint-disable-next-line @typescript-eslint/restrict-plus-operands
     const newCursorPosition = IntNumber(cursorPosition + blocks.length)
@@ -237,10 +397,151 @@ export class FilterPolyfill {
   }
 
   private async getPendingTransactionFilterChanges(
-    _id: IntNumber
+    id: IntNumber
   ): Promise<JSONRPCResponse> {
-    // pending transaction filters are not supported
-    return Promise.resolve(emptyResult())
+    const reported = this.reportedTransactions.get(id)
+    if (!reported) {
+      return filterNotFoundError()
+    }
+
+    const [submitted, pendingBlock] = await Promise.all([
+      this.getSubmittedPendingTransactions(),
+      this.getPendingBlockTransactions()
+    ])
+    const pending = new Set([...submitted, ...pendingBlock])
+
+    // only remember transactions still pending, so that the set stays small
+    this.reportedTransactions.set(id, pending)
+    return {
+      ...JSONRPC_TEMPLATE,
+      result: [...pending].filter(hash => !reported.has(hash))
+    }
+  }
+
+  private async getSubmittedPendingTransactions(): Promise<HexString[]> {
+    const hashes = [...this.pendingTransactions.keys()]
+    const transactions = await Promise.all(
+      hashes.map(hash =>
+        sendAsyncPromise(this.provider, {
+          ...JSONRPC_TEMPLATE,
+          method: "eth_getTransactionByHash",
+          params: [hash]
+        }).then(
+          response => response.result,
+          () => undefined
+        )
+      )
+    )
+
+    transactions.forEach((transaction, i) => {
+      const hash = hashes[i]
+      const submittedAt = this.pendingTransactions.get(hash) ?? 0
+      const isMined = !!transaction?.blockHash
+      const isDropped =
+        !transaction && Date.now() - submittedAt > DROPPED_TRANSACTION_TIMEOUT
+      if (isMined || isDropped) {
+        this.pendingTransactions.delete(hash)
+      }
+    })
+    return [...this.pendingTransactions.keys()]
+  }
+
+  private async getPendingBlockTransactions(): Promise<HexString[]> {
+    if (!this.pendingBlockSupported) {
+      return []
+    }
+    try {
+      const { result } = await sendAsyncPromise(this.provider, {
+        ...JSONRPC_TEMPLATE,
+        method: "eth_getBlockByNumber",
+        params: ["pending", false]
+      })
+      // nodes without a pending block serve the latest block, which has a hash
+      if (!result || result.hash || !Array.isArray(result.transactions)) {
+        this.pendingBlockSupported = false
+        return []
+      }
+      return result.transactions.map((hash: string) =>
+        ensureHexString(hash, true)
+      )
+    } catch {
+      // the node does not support the pending block tag
+      this.pendingBlockSupported = false
+      return []
+    }
+  }
+
+  /**
+   * Checks whether blocks reported to the filter are still part of the chain.
+   * If some were reorganized away, moves the cursor back to the first of them
+   * returns the logs reported from those blocks, marked as removed
+   */
+  private async rewindReorganizedBlocks(id: IntNumber): Promise<Log[]> {
+    const reportedBlocks = this.reportedBlocks.get(id)
+    if (!reportedBlocks || reportedBlocks.size === 0) {
+      return []
+    }
+
+    // walk back from the most recent block until one is still in the chain
+    const blockNumbers = [...reportedBlocks.keys()].sort((a, b) => b - a)
+    let ancestor: IntNumber | null = null
+    let reorganized: IntNumber | null = null
+    for (const blockNumber of blockNumbers) {
+      const hash = await this.getBlockHashByNumber(blockNumber)
+      if (hash === reportedBlocks.get(blockNumber)?.hash) {
+        ancestor = blockNumber
+        break
+      }
+      reorganized = blockNumber
+    }
+    if (reorganized === null) {
+      return []
+    }
+
+    // continue from right after the most recent block still in the chain
+    const rewindTo = ancestor !== null ? IntNumber(ancestor + 1) : reorganized
+
+    const removedLogs: Log[] = []
+    blockNumbers
+      .filter(n => n >= rewindTo)
+      .reverse()
+      .forEach(blockNumber => {
+        const block = reportedBlocks.get(blockNumber)
+        block?.logs.forEach(log => removedLogs.push({ ...log, removed: true }))
+        reportedBlocks.delete(blockNumber)
+      })
+    this.cursors.set(id, rewindTo)
+    return removedLogs
+  }
+
+  private addReportedBlock(
+    id: IntNumber,
+    blockNumber: IntNumber,
+    hash: HexString,
+    log?: Log
+  ): void {
+    let reportedBlocks = this.reportedBlocks.get(id)
+    if (!reportedBlocks) {
+      reportedBlocks = new Map()
+      this.reportedBlocks.set(id, reportedBlocks)
+    }
+
+    let block = reportedBlocks.get(blockNumber)
+    if (!block || block.hash !== hash) {
+      block = { hash, logs: [] }
+      reportedBlocks.set(blockNumber, block)
+    }
+    if (log) {
+      block.logs.push(log)
+    }
+
+    // forget blocks too old to be reorganized
+    const oldest = blockNumber - MAX_REORG_DEPTH
+    reportedBlocks.forEach((_, n) => {
+      if (n < oldest) {
+        reportedBlocks?.delete(n)
+      }
+    })
   }
 
   private async setInitialCursorPosition(
@@ -264,12 +565,12 @@ export class FilterPolyfill {
     const timeout = window.setTimeout(() => {
       console.log(`Filter (${id}) timed out`)
       this.deleteFilter(id)
-    }, TIMEOUT)
+    }, this.timeout)
     this.timeouts.set(id, timeout)
   }
 
   private async getCurrentBlockHeight(): Promise<IntNumber> {
-    const { result } = await this.sendAsyncPromise({
+    const { result } = await sendAsyncPromise(this.provider, {
       ...JSONRPC_TEMPLATE,
       method: "eth_blockNumber",
       params: []
@@ -280,7 +581,7 @@ export class FilterPolyfill {
   private async getBlockHashByNumber(
     blockNumber: IntNumber
   ): Promise<HexString | null> {
-    const response = await this.sendAsyncPromise({
+    const response = await sendAsyncPromise(this.provider, {
       ...JSONRPC_TEMPLATE,
       method: "eth_getBlockByNumber",
       params: [hexStringFromIntNumber(blockNumber), false]
@@ -340,6 +641,14 @@ function hexBlockHeightFromIntBlockHeight(
   return hexStringFromIntNumber(value)
 }
 
+function isLogsLimitError(err: any): boolean {
+  return (
+    err?.code === LIMIT_EXCEEDED_ERROR_CODE ||
+    (typeof err?.message === "string" &&
+      LOGS_LIMIT_ERROR_REGEX.test(err.message))
+  )
+}
+
 function filterNotFoundError(): JSONRPCResponse {
   return {
     ...JSONRPC_TEMPLATE,
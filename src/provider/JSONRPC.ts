@@ -9,6 +9,7 @@ export enum JSONRPCMethod {
   net_version = "net_version",
   eth_chainId = "eth_chainId",
   eth_uninstallFilter = "eth_uninstallFilter", // synchronous
+  wallet_getPermissions = "wallet_getPermissions",
 
   // asynchronous only
   eth_requestAccounts = "eth_requestAccounts",
@@ -16,6 +17,8 @@ export enum JSONRPCMethod {
   eth_ecRecover = "eth_ecRecover",
   personal_sign = "personal_sign",
   personal_ecRecover = "personal_ecRecover",
+  eth_getEncryptionPublicKey = "eth_getEncryptionPublicKey",
+  eth_decrypt = "eth_decrypt",
   eth_signTransaction = "eth_signTransaction",
   eth_sendRawTransaction = "eth_sendRawTransaction",
   eth_sendTransaction = "eth_sendTransaction",
@@ -27,6 +30,13 @@ export enum JSONRPCMethod {
   walletlink_arbitrary = "walletlink_arbitrary",
   wallet_addEthereumChain = "wallet_addEthereumChain",
   wallet_switchEthereumChain = "wallet_switchEthereumChain",
+  wallet_watchAsset = "wallet_watchAsset",
+  wallet_requestPermissions = "wallet_requestPermissions",
+  wallet_revokePermissions = "wallet_revokePermissions",
+  wallet_sendCalls = "wallet_sendCalls",
+  wallet_getCallsStatus = "wallet_getCallsStatus",
+  wallet_showCallsStatus = "wallet_showCallsStatus",
+  wallet_getCapabilities = "wallet_getCapabilities",
 
   // asynchronous pub/sub
   eth_subscribe = "eth_subscribe",
@@ -37,7 +47,14 @@ export enum JSONRPCMethod {
   eth_newBlockFilter = "eth_newBlockFilter",
   eth_newPendingTransactionFilter = "eth_newPendingTransactionFilter",
   eth_getFilterChanges = "eth_getFilterChanges",
-  eth_getFilterLogs = "eth_getFilterLogs"
+  eth_getFilterLogs = "eth_getFilterLogs",
+  eth_getLogs = "eth_getLogs"
+}
+
+// base of the requests and responses the provider makes itself
+export const JSONRPC_TEMPLATE: { jsonrpc: "2.0"; id: number } = {
+  jsonrpc: "2.0",
+  id: 0
 }
 
 export interface JSONRPCRequest<T = any[]> {
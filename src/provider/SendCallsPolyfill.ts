@@ -0,0 +1,198 @@
+// Copyright (c) 2018-2020 WalletLink.org <https://www.walletlink.org/>
+// Copyright (c) 2018-2020 Coinbase, Inc. <https://www.coinbase.com/>
+// Licensed under the Apache License, version 2.0
+
+import { serializeError } from "eth-rpc-errors"
+
+import { ScopedLocalStorage } from "../lib/ScopedLocalStorage"
+import { CallsStatus } from "../relay/Web3Response"
+import { HexString, IntNumber } from "../types"
+import { hexStringFromIntNumber, prepend0x, randomBytesHex } from "../util"
+import { JSONRPC_TEMPLATE } from "./JSONRPC"
+import { sendAsyncPromise, Web3Provider } from "./Web3Provider"
+
+export const LOCAL_STORAGE_CALL_BUNDLES_KEY = "CallBundles"
+// number of most recent bundles kept in storage
+const MAX_STORED_BUNDLES = 100
+const CALLS_STATUS_VERSION = "2.0.0"
+
+export enum CallsStatusCode {
+  PENDING = 100,
+  CONFIRMED = 200,
+  OFFCHAIN_FAILURE = 400,
+  REVERTED = 500,
+  PARTIALLY_REVERTED = 600
+}
+
+// bundle as persisted in storage
+interface CallBundle {
+  id: string
+  chainId: IntNumber
+  callCount: number
+  // fewer than callCount when a call after the first could not be submitted
+  transactionHashes: HexString[]
+  // why the first call that was not submitted failed
+  error?: CallsStatus["error"]
+}
+
+type CallReceipt = NonNullable<CallsStatus["receipts"]>[number]
+
+/**
+ * Emulates EIP-5792 call bundles for wallets without atomic batch support by
+ * submitting each call as its own transaction, in order. Bundles are
+ * persisted, so their status can still be queried after a reload.
+ */
+export class SendCallsPolyfill {
+  private readonly provider: Web3Provider
+  private readonly storage: ScopedLocalStorage
+  private readonly bundles = new Map<string, CallBundle>() // <bundle id, bundle>
+
+  /**
+   * @param provider provider transaction receipts are fetched with
+   * @param storage storage bundles are persisted in
+   */
+  constructor(provider: Web3Provider, storage: ScopedLocalStorage) {
+    this.provider = provider
+    this.storage = storage
+    this.restore()
+  }
+
+  /**
+   * Submits the calls sequentially. If the first call fails the error is
+   * thrown; if a later one fails, the calls from there on are not submitted
+   * and the bundle is reported as failed offchain, with the error, through
+   * getCallsStatus.
+   * @param calls calls to submit
+   * @param chainId chain the calls are submitted to
+   * @param submit submits a single call and returns its transaction hash
+   * @returns the bundle id
+   */
+  public async sendCalls<T>(
+    calls: T[],
+    chainId: IntNumber,
+    submit: (call: T) => Promise<HexString>
+  ): Promise<string> {
+    const bundle: CallBundle = {
+      id: prepend0x(randomBytesHex(32)),
+      chainId,
+      callCount: calls.length,
+      transactionHashes: []
+    }
+
+    for (const call of calls) {
+      try {
+        bundle.transactionHashes.push(await submit(call))
+      } catch (err) {
+        if (bundle.transactionHashes.length === 0) {
+          throw err
+        }
+        // the calls submitted so far are reported in the bundle status
+        const { code, message } = serializeError(err)
+        bundle.error = { code, message }
+        break
+      }
+    }
+
+    this.bundles.set(bundle.id, bundle)
+    this.persist()
+    return bundle.id
+  }
+
+  public hasBundle(id: string): boolean {
+    return this.bundles.has(id)
+  }
+
+  public async getCallsStatus(id: string): Promise<CallsStatus | undefined> {
+    const bundle = this.bundles.get(id)
+    if (!bundle) {
+      return undefined
+    }
+
+    const receipts = (
+      await Promise.all(
+        bundle.transactionHashes.map(hash => this.getTransactionReceipt(hash))
+      )
+    ).filter((receipt): receipt is CallReceipt => receipt !== null)
+
+    return {
+      version: CALLS_STATUS_VERSION,
+      id,
+      chainId: hexStringFromIntNumber(bundle.chainId),
+      status: statusFromReceipts(bundle, receipts),
+      atomic: false,
+      receipts,
+      ...(bundle.error ? { error: bundle.error } : {})
+    }
+  }
+
+  private restore(): void {
+    const stored = this.storage.getItem(LOCAL_STORAGE_CALL_BUNDLES_KEY)
+    if (!stored) {
+      return
+    }
+    try {
+      const bundles = JSON.parse(stored) as CallBundle[]
+      bundles.forEach(bundle => this.bundles.set(bundle.id, bundle))
+    } catch {
+      this.storage.removeItem(LOCAL_STORAGE_CALL_BUNDLES_KEY)
+    }
+  }
+
+  private persist(): void {
+    // the map keeps insertion order, so the oldest bundles come first
+    const bundles = Array.from(this.bundles.values())
+    bundles
+      .slice(0, -MAX_STORED_BUNDLES)
+      .forEach(bundle => this.bundles.delete(bundle.id))
+    this.storage.setItem(
+      LOCAL_STORAGE_CALL_BUNDLES_KEY,
+      JSON.stringify(bundles.slice(-MAX_STORED_BUNDLES))
+    )
+  }
+
+  private async getTransactionReceipt(
+    hash: HexString
+  ): Promise<CallReceipt | null> {
+    const { result } = await sendAsyncPromise(this.provider, {
+      ...JSONRPC_TEMPLATE,
+      method: "eth_getTransactionReceipt",
+      params: [hash]
+    })
+    if (!result || !result.blockHash) {
+      return null
+    }
+    return {
+      logs: (result.logs || []).map((log: CallReceipt["logs"][number]) => ({
+        address: log.address,
+        data: log.data,
+        topics: log.topics
+      })),
+      status: result.status,
+      blockHash: result.blockHash,
+      blockNumber: result.blockNumber,
+      gasUsed: result.gasUsed,
+      transactionHash: result.transactionHash
+    }
+  }
+}
+
+function statusFromReceipts(
+  bundle: CallBundle,
+  receipts: CallReceipt[]
+): CallsStatusCode {
+  if (receipts.length < bundle.transactionHashes.length) {
+    return CallsStatusCode.PENDING
+  }
+  if (bundle.transactionHashes.length < bundle.callCount) {
+    return CallsStatusCode.OFFCHAIN_FAILURE
+  }
+
+  const succeeded = receipts.filter(r => r.status === "0x1").length
+  if (succeeded === bundle.callCount) {
+    return CallsStatusCode.CONFIRMED
+  }
+  if (succeeded === 0) {
+    return CallsStatusCode.REVERTED
+  }
+  return CallsStatusCode.PARTIALLY_REVERTED
+}
@@ -4,12 +4,14 @@ import {
   JsonRpcEngineNextCallback
 } from "json-rpc-engine"
 
+import { VisibilityAwareBlockTracker } from "./VisibilityAwareBlockTracker"
 import { RequestArguments, Web3Provider } from "./Web3Provider"
 
-const PollingBlockTracker = require("eth-block-tracker")
 const createSubscriptionManager = require("eth-json-rpc-filters/subscriptionManager")
 const noop = () => {}
 
+export const DEFAULT_POLLING_INTERVAL = 15 * 1000 // 15 sec
+
 export interface SubscriptionResult {
   result?: unknown
 }
@@ -23,13 +25,17 @@ export interface SubscriptionNotification {
 }
 
 export class SubscriptionManager {
+  private readonly blockTracker: VisibilityAwareBlockTracker
   private readonly subscriptionMiddleware: SubscriptionMiddleware
   readonly events: SafeEventEmitter
 
-  constructor(provider: Web3Provider) {
-    const blockTracker = new PollingBlockTracker({
+  constructor(
+    provider: Web3Provider,
+    pollingInterval: number = DEFAULT_POLLING_INTERVAL
+  ) {
+    const blockTracker = new VisibilityAwareBlockTracker({
       provider,
-      pollingInterval: 15 * 1000, // 15 sec
+      pollingInterval,
       setSkipCacheFlag: true
     })
 
@@ -38,6 +44,7 @@ export class SubscriptionManager {
       provider
     })
 
+    this.blockTracker = blockTracker
     this.events = events
     this.subscriptionMiddleware = middleware
   }
@@ -53,6 +60,7 @@ export class SubscriptionManager {
 
   public destroy() {
     this.subscriptionMiddleware.destroy()
+    this.blockTracker.destroy()
   }
 }
 
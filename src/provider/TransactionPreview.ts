@@ -0,0 +1,162 @@
+// Copyright (c) 2018-2020 WalletLink.org <https://www.walletlink.org/>
+// Copyright (c) 2018-2020 Coinbase, Inc. <https://www.coinbase.com/>
+// Licensed under the Apache License, version 2.0
+
+import BN from "bn.js"
+
+import { AbiRegistry, DecodedCall, decodeParameters } from "../lib/AbiRegistry"
+import { EthereumTransactionParams } from "../relay/EthereumTransactionParams"
+import { AddressString, BigIntString, HexString, IntNumber } from "../types"
+import {
+  bigIntStringFromBN,
+  hexStringFromBuffer,
+  isHexString,
+  strip0x
+} from "../util"
+
+// bytes4(keccak256("Error(string)"))
+const ERROR_SELECTOR = "08c379a0"
+// bytes4(keccak256("Panic(uint256)"))
+const PANIC_SELECTOR = "4e487b71"
+const PANIC_REASONS: Record<number, string> = {
+  0x01: "assertion failed",
+  0x11: "arithmetic overflow or underflow",
+  0x12: "division or modulo by zero",
+  0x21: "invalid enum value",
+  0x31: "pop from an empty array",
+  0x32: "array index out of bounds",
+  0x41: "out of memory",
+  0x51: "call to an uninitialized function"
+}
+
+/**
+ * Result of running a transaction with eth_call
+ */
+export interface TransactionSimulation {
+  success: boolean
+  // null if the transaction succeeded or reverted without a reason
+  revertReason: string | null
+  // return data, or revert data if the transaction reverted
+  returnData: HexString | null
+}
+
+export interface TransactionPreview {
+  from: AddressString
+  to: AddressString | null
+  value: BigIntString
+  chainId: IntNumber
+  // null if the calldata is empty or its function is not registered
+  call: DecodedCall | null
+  description: string
+  // null if the transaction could not be simulated
+  simulation: TransactionSimulation | null
+}
+
+/**
+ * @param tx transaction to preview
+ * @param registry functions the calldata is decoded against
+ * @param request makes a JSON-RPC request to the node and returns the result
+ */
+export async function previewTransaction(
+  tx: EthereumTransactionParams,
+  registry: AbiRegistry,
+  request: (method: string, params: unknown[]) => Promise<any>
+): Promise<TransactionPreview> {
+  const call = registry.decode(tx.data, {
+    to: tx.toAddress,
+    value: tx.weiValue
+  })
+
+  return {
+    from: tx.fromAddress,
+    to: tx.toAddress,
+    value: bigIntStringFromBN(tx.weiValue),
+    chainId: tx.chainId,
+    call,
+    description: describeTransaction(tx, call),
+    simulation: await simulateTransaction(tx, request)
+  }
+}
+
+/**
+ * @param data revert data returned by a failed call
+ * returns the reason of a require/revert or panic, or null if there is none
+ */
+export function decodeRevertReason(data: Buffer): string | null {
+  const selector = data.slice(0, 4).toString("hex")
+  try {
+    if (selector === ERROR_SELECTOR) {
+      return decodeParameters(["string"], data.slice(4))[0] as string
+    }
+    if (selector === PANIC_SELECTOR) {
+      const code = new BN(
+        decodeParameters(["uint256"], data.slice(4))[0] as string
+      )
+      const reason = code.bitLength() <= 8 && PANIC_REASONS[code.toNumber()]
+      return `Panic(0x${code.toString(16)})${reason ? `: ${reason}` : ""}`
+    }
+  } catch {
+    // malformed revert data
+  }
+  return null
+}
+
+function describeTransaction(
+  tx: EthereumTransactionParams,
+  call: DecodedCall | null
+): string {
+  if (call?.description) {
+    return call.description
+  }
+  if (!tx.toAddress) {
+    return "Deploy a contract"
+  }
+  if (tx.data.length === 0) {
+    return `Send ${tx.weiValue.toString(10)} wei to ${tx.toAddress}`
+  }
+  return call
+    ? `Call ${call.signature} on ${tx.toAddress}`
+    : `Call contract ${tx.toAddress}`
+}
+
+async function simulateTransaction(
+  tx: EthereumTransactionParams,
+  request: (method: string, params: unknown[]) => Promise<any>
+): Promise<TransactionSimulation | null> {
+  const callParams: Record<string, string> = {
+    from: tx.fromAddress,
+    value: `0x${tx.weiValue.toString(16)}`,
+    data: hexStringFromBuffer(tx.data, true)
+  }
+  if (tx.toAddress) {
+    callParams.to = tx.toAddress
+  }
+  if (tx.gasLimit) {
+    callParams.gas = `0x${tx.gasLimit.toString(16)}`
+  }
+
+  try {
+    const result = await request("eth_call", [callParams, "latest"])
+    return {
+      success: true,
+      revertReason: null,
+      returnData: isHexString(result) ? result : null
+    }
+  } catch (err: any) {
+    // nodes put the revert data in error.data, some nest it one level deeper
+    const revertData = [err?.data, err?.data?.data].find(isHexString)
+    if (revertData) {
+      return {
+        success: false,
+        revertReason: decodeRevertReason(
+          Buffer.from(strip0x(revertData), "hex")
+        ),
+        returnData: revertData
+      }
+    }
+    if (typeof err?.message === "string" && /revert/i.test(err.message)) {
+      return { success: false, revertReason: err.message, returnData: null }
+    }
+    return null
+  }
+}
@@ -0,0 +1,339 @@
+// Copyright (c) 2018-2020 WalletLink.org <https://www.walletlink.org/>
+// Copyright (c) 2018-2020 Coinbase, Inc. <https://www.coinbase.com/>
+// Licensed under the Apache License, version 2.0
+
+import SafeEventEmitter from "@metamask/safe-event-emitter"
+
+import { ScopedLocalStorage } from "../lib/ScopedLocalStorage"
+import { AddressString, HexString, IntNumber } from "../types"
+import {
+  ensureAddressString,
+  ensureHexString,
+  hexStringFromIntNumber,
+  intNumberFromHexString
+} from "../util"
+import { JSONRPC_TEMPLATE } from "./JSONRPC"
+import { DEFAULT_POLLING_INTERVAL } from "./SubscriptionManager"
+import { sendAsyncPromise, Web3Provider } from "./Web3Provider"
+
+export const LOCAL_STORAGE_TRANSACTIONS_KEY = "Transactions"
+// number of confirmations after which a transaction is no longer tracked
+export const TRACKED_CONFIRMATIONS = 12
+// how long transactions the node does not know of are kept pending
+export const DROPPED_TRANSACTION_TIMEOUT = 10 * 60 * 1000 // 10 minutes
+// how many recent blocks are searched for the transaction that replaced one
+const MAX_REPLACEMENT_SEARCH_DEPTH = 10
+
+interface BaseTransactionStatus<Status extends string> {
+  status: Status
+  hash: HexString
+  chainId: IntNumber
+}
+
+export type TransactionStatus =
+  | BaseTransactionStatus<"pending">
+  | (BaseTransactionStatus<"mined"> & {
+      blockNumber: IntNumber
+      blockHash: HexString
+    })
+  | (BaseTransactionStatus<"reverted"> & {
+      blockNumber: IntNumber
+      blockHash: HexString
+    })
+  | (BaseTransactionStatus<"confirmed"> & {
+      blockNumber: IntNumber
+      confirmations: number
+    })
+  | BaseTransactionStatus<"dropped">
+  | (BaseTransactionStatus<"replaced"> & {
+      // null when the replacing transaction could not be found
+      replacedBy: HexString | null
+    })
+
+// in-flight transaction, as persisted in storage
+interface TrackedTransaction {
+  hash: HexString
+  chainId: IntNumber
+  // known once the node has returned the transaction
+  from: AddressString | null
+  nonce: IntNumber | null
+  submittedAt: number
+  // block the transaction was mined in, null while pending
+  blockNumber: IntNumber | null
+  confirmations: number
+}
+
+/**
+ * Follows transactions submitted through the provider until they have
+ * TRACKED_CONFIRMATIONS confirmations, or are dropped or replaced, emitting
+ * "transactionStatus" events along the way. In-flight transactions are
+ * persisted, so tracking resumes after a reload.
+ */
+export class TransactionTracker {
+  readonly events = new SafeEventEmitter()
+
+  private readonly provider: Web3Provider
+  private readonly storage: ScopedLocalStorage
+  private readonly getChainId: () => IntNumber
+  private readonly pollingInterval: number
+  private readonly transactions = new Map<HexString, TrackedTransaction>() // <hash, transaction>
+  private interval: number | null = null
+  private polling = false
+
+  /**
+   * @param provider provider to poll
+   * @param storage storage in-flight transactions are persisted in
+   * @param getChainId returns the current chain; transactions on other chains
+   * are kept but not polled
+   * @param pollingInterval time in milliseconds between polls
+   */
+  constructor(
+    provider: Web3Provider,
+    storage: ScopedLocalStorage,
+    getChainId: () => IntNumber,
+    pollingInterval: number = DEFAULT_POLLING_INTERVAL
+  ) {
+    this.provider = provider
+    this.storage = storage
+    this.getChainId = getChainId
+    this.pollingInterval = pollingInterval
+    this.restore()
+  }
+
+  /**
+   * @param hash hash of the submitted transaction
+   * @param chainId chain the transaction was submitted to
+   * @param from sender, if known
+   * @param nonce nonce, if known
+   */
+  public track(
+    hash: HexString,
+    chainId: IntNumber,
+    from: AddressString | null = null,
+    nonce: IntNumber | null = null
+  ): void {
+    const tx: TrackedTransaction = {
+      hash: ensureHexString(hash, true),
+      chainId,
+      from,
+      nonce,
+      submittedAt: Date.now(),
+      blockNumber: null,
+      confirmations: 0
+    }
+    this.transactions.set(tx.hash, tx)
+    this.persist()
+    this.emitStatus({ status: "pending", hash: tx.hash, chainId })
+    this.startPolling()
+  }
+
+  public destroy(): void {
+    this.stopPolling()
+    this.events.removeAllListeners()
+  }
+
+  private async poll(): Promise<void> {
+    if (this.polling) {
+      return
+    }
+    this.polling = true
+    try {
+      const chainId = this.getChainId()
+      const transactions = Array.from(this.transactions.values()).filter(
+        tx => tx.chainId === chainId
+      )
+      if (transactions.length === 0) {
+        return
+      }
+      const blockHeight = await this.getCurrentBlockHeight()
+      for (const tx of transactions) {
+        try {
+          await this.updateTransaction(tx, blockHeight)
+        } catch {
+          // retried on the next poll
+        }
+      }
+    } catch {
+      // retried on the next poll
+    } finally {
+      this.polling = false
+      this.persist()
+    }
+  }
+
+  private async updateTransaction(
+    tx: TrackedTransaction,
+    blockHeight: IntNumber
+  ): Promise<void> {
+    const { hash, chainId } = tx
+    const receipt = await this.request("eth_getTransactionReceipt", [hash])
+
+    if (receipt && typeof receipt.blockHash === "string") {
+      const blockNumber = intNumberFromHexString(
+        ensureHexString(receipt.blockNumber)
+      )
+      if (tx.blockNumber !== blockNumber) {
+        // newly mined, or mined again in another block after a reorg
+        tx.blockNumber = blockNumber
+        tx.confirmations = 1
+        const status = receipt.status === "0x0" ? "reverted" : "mined"
+        const blockHash = ensureHexString(receipt.blockHash, true)
+        this.emitStatus({ status, hash, chainId, blockNumber, blockHash })
+      }
+      const confirmations = blockHeight - blockNumber + 1
+      if (confirmations > tx.confirmations) {
+        tx.confirmations = confirmations
+        this.emitStatus({
+          status: "confirmed",
+          hash,
+          chainId,
+          blockNumber,
+          confirmations
+        })
+      }
+      if (tx.confirmations >= TRACKED_CONFIRMATIONS) {
+        this.transactions.delete(hash)
+      }
+      return
+    }
+
+    if (tx.blockNumber !== null) {
+      // the block the transaction was mined in was reorganized away
+      tx.blockNumber = null
+      tx.confirmations = 0
+      this.emitStatus({ status: "pending", hash, chainId })
+    }
+
+    const transaction = await this.request("eth_getTransactionByHash", [hash])
+    if (transaction) {
+      tx.from = ensureAddressString(transaction.from)
+      tx.nonce = intNumberFromHexString(ensureHexString(transaction.nonce))
+      return
+    }
+
+    if (tx.from !== null && tx.nonce !== null) {
+      const transactionCount = await this.request("eth_getTransactionCount", [
+        tx.from,
+        "latest"
+      ])
+      if (
+        intNumberFromHexString(ensureHexString(transactionCount)) > tx.nonce
+      ) {
+        // the nonce was used by another transaction
+        const replacedBy = await this.findReplacement(tx, blockHeight)
+        this.transactions.delete(hash)
+        this.emitStatus({ status: "replaced", hash, chainId, replacedBy })
+        return
+      }
+    }
+
+    if (Date.now() - tx.submittedAt > DROPPED_TRANSACTION_TIMEOUT) {
+      this.transactions.delete(hash)
+      this.emitStatus({ status: "dropped", hash, chainId })
+    }
+  }
+
+  private async findReplacement(
+    tx: TrackedTransaction,
+    blockHeight: IntNumber
+  ): Promise<HexString | null> {
+    // transactions submitted through the provider are known without a search
+    for (const other of this.transactions.values()) {
+      if (
+        other.hash !== tx.hash &&
+        other.chainId === tx.chainId &&
+        other.from === tx.from &&
+        other.nonce === tx.nonce
+      ) {
+        return other.hash
+      }
+    }
+
+    const lowestBlock = Math.max(0, blockHeight - MAX_REPLACEMENT_SEARCH_DEPTH)
+    for (let n = blockHeight; n > lowestBlock; n--) {
+      const block = await this.request("eth_getBlockByNumber", [
+        hexStringFromIntNumber(IntNumber(n)),
+        true
+      ])
+      const transactions: any[] = (block && block.transactions) || []
+      const replacement = transactions.find(
+        t =>
+          typeof t === "object" &&
+          ensureAddressString(t.from) === tx.from &&
+          intNumberFromHexString(ensureHexString(t.nonce)) === tx.nonce
+      )
+      if (replacement) {
+        return ensureHexString(replacement.hash, true)
+      }
+    }
+    return null
+  }
+
+  private emitStatus(status: TransactionStatus): void {
+    this.events.emit("transactionStatus", status)
+  }
+
+  private startPolling(): void {
+    if (this.interval === null) {
+      this.interval = window.setInterval(() => {
+        if (this.transactions.size === 0) {
+          this.stopPolling()
+          return
+        }
+        void this.poll()
+      }, this.pollingInterval)
+    }
+  }
+
+  private stopPolling(): void {
+    if (this.interval !== null) {
+      window.clearInterval(this.interval)
+      this.interval = null
+    }
+  }
+
+  private restore(): void {
+    const stored = this.storage.getItem(LOCAL_STORAGE_TRANSACTIONS_KEY)
+    if (!stored) {
+      return
+    }
+    try {
+      const transactions = JSON.parse(stored) as TrackedTransaction[]
+      transactions.forEach(tx => this.transactions.set(tx.hash, tx))
+    } catch {
+      this.storage.removeItem(LOCAL_STORAGE_TRANSACTIONS_KEY)
+      return
+    }
+    if (this.transactions.size > 0) {
+      this.startPolling()
+    }
+  }
+
+  private persist(): void {
+    if (this.transactions.size === 0) {
+      this.storage.removeItem(LOCAL_STORAGE_TRANSACTIONS_KEY)
+      return
+    }
+    this.storage.setItem(
+      LOCAL_STORAGE_TRANSACTIONS_KEY,
+      JSON.stringify(Array.from(this.transactions.values()))
+    )
+  }
+
+  private async getCurrentBlockHeight(): Promise<IntNumber> {
+    const result = await this.request("eth_blockNumber", [])
+    return intNumberFromHexString(ensureHexString(result))
+  }
+
+  private async request(method: string, params: unknown[]): Promise<any> {
+    const response = await sendAsyncPromise(this.provider, {
+      ...JSONRPC_TEMPLATE,
+      method,
+      params
+    })
+    if (response.error) {
+      throw response.error
+    }
+    return response.result
+  }
+}
@@ -0,0 +1,97 @@
+// Copyright (c) 2018-2020 WalletLink.org <https://www.walletlink.org/>
+// Copyright (c) 2018-2020 Coinbase, Inc. <https://www.coinbase.com/>
+// Licensed under the Apache License, version 2.0
+
+import bind from "bind-decorator"
+
+const PollingBlockTracker = require("eth-block-tracker")
+
+/**
+ * eth-block-tracker's PollingBlockTracker that stops polling while the page is
+ * hidden, and catches up on the latest block as soon as it is visible again
+ */
+export class VisibilityAwareBlockTracker extends PollingBlockTracker {
+  private _pollTimeout: number | null = null
+  // incremented on each start, so that polls of previous runs stop
+  private _run = 0
+
+  constructor(opts: object) {
+    super(opts)
+    document.addEventListener("visibilitychange", this._onVisibilityChange) // eslint-disable-line @typescript-eslint/unbound-method
+  }
+
+  /**
+   * Stops polling and listening to visibility changes
+   */
+  public destroy(): void {
+    document.removeEventListener("visibilitychange", this._onVisibilityChange) // eslint-disable-line @typescript-eslint/unbound-method
+    this.removeAllListeners()
+    this._stopPolling()
+    this._cancelBlockResetTimeout()
+  }
+
+  // while the page is hidden, the latest block is fetched on demand
+  public async getLatestBlock(): Promise<string> {
+    if (!this._currentBlock && this._isHidden()) {
+      await this._updateLatestBlock()
+    }
+    return super.getLatestBlock()
+  }
+
+  _start(): void {
+    if (!this._isHidden()) {
+      this._startPolling()
+    }
+  }
+
+  _end(): void {
+    this._stopPolling()
+  }
+
+  @bind
+  private _onVisibilityChange(): void {
+    if (!this._isRunning) {
+      return
+    }
+    if (this._isHidden()) {
+      this._stopPolling()
+      // forget the latest block once it is stale
+      this._setupBlockResetTimeout()
+    } else {
+      this._cancelBlockResetTimeout()
+      this._startPolling()
+    }
+  }
+
+  private _startPolling(): void {
+    this._stopPolling()
+    void this._poll(++this._run)
+  }
+
+  private _stopPolling(): void {
+    this._run++
+    if (this._pollTimeout !== null) {
+      window.clearTimeout(this._pollTimeout)
+      this._pollTimeout = null
+    }
+  }
+
+  private async _poll(run: number): Promise<void> {
+    let delay = this._pollingInterval
+    try {
+      await this._updateLatestBlock()
+    } catch (err) {
+      if (this.listenerCount("error") > 0) {
+        this.emit("error", err)
+      }
+      delay = this._retryTimeout
+    }
+    if (run === this._run) {
+      this._pollTimeout = window.setTimeout(() => void this._poll(run), delay)
+    }
+  }
+
+  private _isHidden(): boolean {
+    return document.visibilityState === "hidden"
+  }
+}
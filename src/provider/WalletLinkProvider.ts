@@ -3,26 +3,50 @@
 // Licensed under the Apache License, version 2.0
 
 import SafeEventEmitter from "@metamask/safe-event-emitter"
+import bind from "bind-decorator"
 import BN from "bn.js"
-import { ethErrors } from "eth-rpc-errors"
+import { EthereumRpcError, ethErrors } from "eth-rpc-errors"
+import { JsonRpcEngine, JsonRpcMiddleware } from "json-rpc-engine"
 
 import { WalletLinkAnalytics } from "../connection/WalletLinkAnalytics"
 import { EVENTS, WalletLinkAnalyticsAbstract } from "../init"
+import { makeDefaultAbiRegistry } from "../lib/AbiRegistry"
+import { hashPersonalMessage, recoverAddress } from "../lib/ecRecover"
+import { parseEncryptedData } from "../lib/encryption"
+import {
+  decodeSignedTransaction,
+  hashSignedTransaction,
+  recoverTransactionSender,
+  SignedTransaction
+} from "../lib/EthereumTransaction"
 import { ScopedLocalStorage } from "../lib/ScopedLocalStorage"
+import {
+  formatSiweMessage,
+  generateSiweNonce,
+  SiweMessage,
+  SiweMessageExpectations,
+  validateSiweMessage,
+  verifySiweMessage
+} from "../lib/SiweMessage"
 import { EthereumTransactionParams } from "../relay/EthereumTransactionParams"
 import { Session } from "../relay/Session"
 import {
+  LOCAL_STORAGE_ACCOUNTS_REVOKED_KEY,
   LOCAL_STORAGE_ADDRESSES_KEY,
+  LOCAL_STORAGE_PERMISSIONS_KEY,
   WalletLinkRelayAbstract
 } from "../relay/WalletLinkRelayAbstract"
 import { WalletLinkRelayEventManager } from "../relay/WalletLinkRelayEventManager"
 import {
+  CallsStatus,
   ErrorResponse,
   RequestEthereumAccountsResponse,
-  SwitchResponse
+  SwitchResponse,
+  WalletCapabilities
 } from "../relay/Web3Response"
-import { AddressString, Callback, IntNumber } from "../types"
+import { AddressString, Callback, HexString, IntNumber } from "../types"
 import {
+  ensureAccessList,
   ensureAddressString,
   ensureBN,
   ensureBuffer,
@@ -30,34 +54,70 @@ import {
   ensureIntNumber,
   ensureParsedJSONObject,
   ensureRegExpString,
+  ensureTransactionType,
+  hexStringFromBuffer,
   hexStringFromIntNumber,
-  prepend0x
+  prepend0x,
+  strip0x,
+  toChecksumAddress
 } from "../util"
 import eip712 from "../vendor-js/eth-eip712-util"
+import { announceProvider } from "./EIP6963"
+import { FeeEstimates, FeeEstimator, FeeSpeed } from "./FeeEstimator"
 import { FilterPolyfill } from "./FilterPolyfill"
 import { JSONRPCMethod, JSONRPCRequest, JSONRPCResponse } from "./JSONRPC"
+import { SendCallsPolyfill } from "./SendCallsPolyfill"
 import {
   SubscriptionManager,
   SubscriptionNotification,
   SubscriptionResult
 } from "./SubscriptionManager"
+import { previewTransaction, TransactionPreview } from "./TransactionPreview"
+import { TransactionTracker } from "./TransactionTracker"
 import { RequestArguments, Web3Provider } from "./Web3Provider"
+import {
+  isWebSocketUrl,
+  WebSocketSubscriptionManager
+} from "./WebSocketSubscriptionManager"
 
 const DEFAULT_CHAIN_ID_KEY = "DefaultChainId"
 const DEFAULT_JSON_RPC_URL = "DefaultJsonRpcUrl"
 // Indicates chain has been switched by switchEthereumChain or addEthereumChain request
 const HAS_CHAIN_BEEN_SWITCHED_KEY = "HasChainBeenSwitched"
 const HAS_CHAIN_OVERRIDDEN_FROM_RELAY = "HasChainOverriddenFromRelay"
+const DEFAULT_SIWE_EXPIRATION = 10 * 60 * 1000 // 10 minutes
+// bytes4(keccak256("isValidSignature(bytes32,bytes)"))
+const EIP1271_MAGIC_VALUE = "1626ba7e"
+// nodes only accept replacement transactions raising fees by at least 10%
+const MIN_FEE_BUMP = 1.1
+const CANCEL_GAS_LIMIT = 21000
+// wallets that do not know wallet_getCapabilities may never answer it
+const CAPABILITIES_TIMEOUT = 5000 // 5 seconds
+
+export type ProviderMiddleware = JsonRpcMiddleware<unknown, unknown>
+
+export interface ProviderMiddlewareOptions {
+  // let send without a callback answer synchronously, bypassing the middleware
+  skipSynchronousRequests?: boolean
+}
 
 export interface WalletLinkProviderOptions {
+  announceProvider?: boolean
   chainId?: number
+  feeEstimation?: FeeSpeed
+  filterTimeout?: number
   jsonRpcUrl: string
   overrideIsCoinbaseWallet?: boolean
   overrideIsMetaMask: boolean
+  pollingInterval?: number
+  // EIP-6963 uuid of the provider, random if unspecified
+  providerUuid?: string
   relayEventManager: WalletLinkRelayEventManager
   relayProvider: () => Promise<WalletLinkRelayAbstract>
   storage: ScopedLocalStorage
+  transactionPreview?: boolean
   walletLinkAnalytics?: WalletLinkAnalyticsAbstract
+  watchAddresses?: string[]
 }
 
 export class WalletLinkProvider
@@ -66,9 +126,29 @@ export class WalletLinkProvider
 {
   // So dapps can easily identify Coinbase Wallet for enabling features like 3085 network switcher menus
   public readonly isCoinbaseWallet: boolean
-
-  private readonly _filterPolyfill = new FilterPolyfill(this)
-  private readonly _subscriptionManager = new SubscriptionManager(this)
+  // functions transaction previews decode calldata against
+  public readonly abiRegistry = makeDefaultAbiRegistry()
+
+  private readonly _filterPolyfill: FilterPolyfill
+  private readonly _pollingInterval?: number
+  private _subscriptionManager:
+    | SubscriptionManager
+    | WebSocketSubscriptionManager
+    | null = null
+  private readonly _sendCallsPolyfill: SendCallsPolyfill
+  private readonly _transactionTracker: TransactionTracker
+  private readonly _feeEstimator = new FeeEstimator((method, params) =>
+    this._makeNodeRequest(method, params)
+  )
+  private readonly _feeEstimation?: FeeSpeed
+  private readonly _transactionPreview: boolean
+  // registered with addMiddleware, run before the built-in handlers
+  private readonly _middlewares: {
+    middleware: ProviderMiddleware
+    options: ProviderMiddlewareOptions
+  }[] = []
+  // built on the first request after the middlewares change
+  private _engine: JsonRpcEngine | null = null
 
   private readonly _relayProvider: () => Promise<WalletLinkRelayAbstract>
   private _relay: WalletLinkRelayAbstract | null = null
@@ -80,8 +160,14 @@ export class WalletLinkProvider
   private readonly _overrideIsMetaMask: boolean
 
   private _addresses: AddressString[] = []
+  // answer eth_accounts until a wallet is linked
+  private readonly _watchAddresses: AddressString[]
+  // <"chain id:address", capabilities>
+  private readonly _capabilities = new Map<string, WalletCapabilities>()
 
   private hasMadeFirstChainChangedEmission = false
+  // stops the EIP-6963 announcements, if the provider is announced
+  private readonly _stopAnnouncing: (() => void) | null
 
   constructor(options: Readonly<WalletLinkProviderOptions>) {
     super()
@@ -98,7 +184,24 @@ export class WalletLinkProvider
     this._setAddresses = this._setAddresses.bind(this)
     this.scanQRCode = this.scanQRCode.bind(this)
     this.genericRequest = this.genericRequest.bind(this)
-
+    this.signInWithEthereum = this.signInWithEthereum.bind(this)
+    this.verifySignInWithEthereum = this.verifySignInWithEthereum.bind(this)
+    this.verifySignature = this.verifySignature.bind(this)
+    this.speedUpTransaction = this.speedUpTransaction.bind(this)
+    this.cancelTransaction = this.cancelTransaction.bind(this)
+    this.estimateFees = this.estimateFees.bind(this)
+    this.switchAccount = this.switchAccount.bind(this)
+    this.previewTransaction = this.previewTransaction.bind(this)
+    this.addMiddleware = this.addMiddleware.bind(this)
+    this.destroy = this.destroy.bind(this)
+
+    this._filterPolyfill = new FilterPolyfill(this, options.filterTimeout)
+    this._pollingInterval = options.pollingInterval
+    this._feeEstimation = options.feeEstimation
+    this._transactionPreview = !!options.transactionPreview
+    this._watchAddresses = (options.watchAddresses || [])
+      .map(address => ensureAddressString(address))
+      .filter((address, i, all) => all.indexOf(address) === i)
     this._jsonRpcUrlFromOpts = options.jsonRpcUrl
     this._overrideIsMetaMask = options.overrideIsMetaMask
     this._relayProvider = options.relayProvider
@@ -108,6 +211,17 @@ export class WalletLinkProvider
       ? options.walletLinkAnalytics
       : new WalletLinkAnalytics()
 
+    this._sendCallsPolyfill = new SendCallsPolyfill(this, this._storage)
+    this._transactionTracker = new TransactionTracker(
+      this,
+      this._storage,
+      () => this.getChainId(),
+      options.pollingInterval
+    )
+    this._transactionTracker.events.on("transactionStatus", status =>
+      this.emit("transactionStatus", status)
+    )
+
     this.isCoinbaseWallet = options.overrideIsCoinbaseWallet ?? true
 
     const chainId = this.getChainId()
@@ -124,35 +238,44 @@ export class WalletLinkProvider
       }
     }
 
-    this._subscriptionManager.events.on(
-      "notification",
-      (notification: SubscriptionNotification) => {
-        this.emit("message", {
-          type: notification.method,
-          data: notification.params
-        })
-      }
-    )
-
     if (this._addresses.length > 0) {
       void this.initializeRelay()
     }
 
-    window.addEventListener("message", event => {
-      if (event.data.type !== "walletLinkMessage") return
+    window.addEventListener("message", this._onWindowMessage) // eslint-disable-line @typescript-eslint/unbound-method
 
-      if (event.data.data.action === "defaultChainChanged") {
-        const _chainId = event.data.data.chainId
-        const jsonRpcUrl = event.data.data.jsonRpcUrl ?? this.jsonRpcUrl
-        this.updateProviderInfo(jsonRpcUrl, Number(_chainId), true)
-      }
-    })
+    this._stopAnnouncing = options.announceProvider
+      ? announceProvider(this, { uuid: options.providerUuid })
+      : null
   }
 
   public get selectedAddress(): AddressString | undefined {
     return this._addresses[0] || undefined
   }
 
+  /**
+   * Whether eth_accounts returns watched addresses, because no wallet is
+   * linked yet. Signing is unavailable until eth_requestAccounts links one.
+   */
+  public get isWatchOnly(): boolean {
+    return this._addresses.length === 0 && this._watchAddresses.length > 0
+  }
+
+  /**
+   * Makes one of the connected accounts the selected one, i.e. the first
+   * returned by eth_accounts and used by eth_coinbase. Emits accountsChanged.
+   * @param address connected account to select
+   */
+  public switchAccount(address: string): void {
+    this._requireAuthorization()
+    const selected = ensureAddressString(address)
+    this._ensureKnownAddress(selected)
+    this._setAddresses([
+      selected,
+      ...this._addresses.filter(other => other !== selected)
+    ])
+  }
+
   public get networkVersion(): string {
     return this.getChainId().toString(10)
   }
@@ -222,8 +345,18 @@ export class WalletLinkProvider
       this.isChainOverridden = true
     }
 
+    const previousJsonRpcUrl = this.jsonRpcUrl
     this.jsonRpcUrl = jsonRpcUrl
 
+    // websocket subscriptions are bound to the endpoint they were made on
+    if (
+      jsonRpcUrl !== previousJsonRpcUrl &&
+      (isWebSocketUrl(jsonRpcUrl) || isWebSocketUrl(previousJsonRpcUrl))
+    ) {
+      this._subscriptionManager?.destroy()
+      this._subscriptionManager = null
+    }
+
     // emit chainChanged event if necessary
     const originalChainId = this.getChainId()
     this._storage.setItem(DEFAULT_CHAIN_ID_KEY, chainId.toString(10))
@@ -234,6 +367,17 @@ export class WalletLinkProvider
     }
   }
 
+  @bind
+  private _onWindowMessage(event: MessageEvent): void {
+    if (event.data.type !== "walletLinkMessage") return
+
+    if (event.data.data.action === "defaultChainChanged") {
+      const _chainId = event.data.data.chainId
+      const jsonRpcUrl = event.data.data.jsonRpcUrl ?? this.jsonRpcUrl
+      this.updateProviderInfo(jsonRpcUrl, Number(_chainId), true)
+    }
+  }
+
   private async addEthereumChain(
     chainId: number,
     rpcUrls: string[],
@@ -289,6 +433,27 @@ export class WalletLinkProvider
     }
   }
 
+  private async watchAsset(
+    type: string,
+    address: string,
+    symbol?: string,
+    decimals?: number,
+    image?: string,
+    tokenId?: string
+  ): Promise<boolean> {
+    const relay = await this.initializeRelay()
+    const res = await relay.watchAsset(
+      type,
+      ensureAddressString(address),
+      symbol,
+      decimals,
+      image,
+      tokenId
+    ).promise
+
+    return !!res.result
+  }
+
   public setAppInfo(appName: string, appLogoUrl: string | null): void {
     void this.initializeRelay().then(relay =>
       relay.setAppInfo(appName, appLogoUrl)
@@ -313,6 +478,21 @@ export class WalletLinkProvider
     void this.initializeRelay().then(relay => relay.resetAndReload())
   }
 
+  /**
+   * Stops polling for blocks, uninstalls filters and subscriptions, removes
+   * event listeners and stops announcing the provider, so that it can be
+   * discarded. The session is left intact; use close() to disconnect.
+   */
+  public destroy(): void {
+    this._stopAnnouncing?.()
+    this._subscriptionManager?.destroy()
+    this._subscriptionManager = null
+    this._filterPolyfill.destroy()
+    this._transactionTracker.destroy()
+    window.removeEventListener("message", this._onWindowMessage) // eslint-disable-line @typescript-eslint/unbound-method
+    this.removeAllListeners()
+  }
+
   public send(request: JSONRPCRequest): JSONRPCResponse
   public send(request: JSONRPCRequest[]): JSONRPCResponse[]
   public send(
@@ -459,6 +639,173 @@ export class WalletLinkProvider
     return res.result
   }
 
+  /**
+   * Builds an EIP-4361 message bound to this page's host and the current chain,
+   * and asks the user to sign it with personal_sign
+   * @param options message fields; defaults to the selected address, a random
+   * nonce and a 10 minute expiration
+   */
+  public async signInWithEthereum(
+    options: SignInWithEthereumOptions = {}
+  ): Promise<SignInWithEthereumResult> {
+    const addresses =
+      this._addresses.length > 0 ? this._addresses : await this.enable()
+    const address = options.address
+      ? ensureAddressString(options.address)
+      : addresses[0]
+    this._ensureKnownAddress(address)
+
+    const issuedAt = new Date()
+    const message: SiweMessage = {
+      domain: location.host,
+      address: toChecksumAddress(address),
+      statement: options.statement,
+      uri: options.uri ?? location.origin,
+      version: "1",
+      chainId: this.getChainId(),
+      nonce: options.nonce ?? generateSiweNonce(),
+      issuedAt: issuedAt.toISOString(),
+      expirationTime: (
+        options.expirationTime ??
+        new Date(issuedAt.getTime() + DEFAULT_SIWE_EXPIRATION)
+      ).toISOString(),
+      notBefore: options.notBefore?.toISOString(),
+      requestId: options.requestId,
+      resources: options.resources
+    }
+    validateSiweMessage(message, { time: issuedAt })
+
+    const rawMessage = formatSiweMessage(message)
+    const res = await this._signEthereumMessage(
+      Buffer.from(rawMessage, "utf8"),
+      address,
+      true
+    )
+    return { message, rawMessage, signature: res.result }
+  }
+
+  /**
+   * Verifies a signed EIP-4361 message, recovering the signer through the
+   * wallet. Throws if the message is invalid or was not signed by its address.
+   * @param rawMessage signed message text
+   * @param signature signature returned by signInWithEthereum
+   * @param expected values the message must match, e.g. the issued nonce
+   */
+  public verifySignInWithEthereum(
+    rawMessage: string,
+    signature: string,
+    expected: SiweMessageExpectations = {}
+  ): Promise<SiweMessage> {
+    return verifySiweMessage(
+      rawMessage,
+      signature,
+      async (message, sig) => {
+        const res = await this._ethereumAddressFromSignedMessage(
+          message,
+          sig,
+          true
+        )
+        return res.result
+      },
+      expected
+    )
+  }
+
+  /**
+   * Checks a signature made by either an externally owned account, or a smart
+   * contract wallet implementing EIP-1271
+   * @param address address expected to have signed the message
+   * @param message personal_sign message, or EIP-712 typed data object
+   * @param signature signature to check
+   */
+  public async verifySignature(
+    address: string,
+    message: string | Buffer | object,
+    signature: string
+  ): Promise<boolean> {
+    const signer = ensureAddressString(address)
+    const sig = ensureBuffer(signature)
+    const hash =
+      typeof message === "object" && !Buffer.isBuffer(message)
+        ? eip712.hashForSignTypedData_v4({ data: message })
+        : hashPersonalMessage(ensureBuffer(message))
+
+    if (recoverAddress(hash, sig) === signer) {
+      return true
+    }
+    return this._isValidSignatureEIP1271(signer, hash, sig)
+  }
+
+  /**
+   * Replaces a pending transaction with one of the same nonce and higher fees
+   * @param hash hash of the pending transaction
+   * @param feeBump factor the fees are multiplied by, at least 1.1
+   * returns the hash of the replacement transaction
+   */
+  public speedUpTransaction(
+    hash: string,
+    feeBump: number = MIN_FEE_BUMP
+  ): Promise<HexString> {
+    return this._replaceTransaction(hash, feeBump, false)
+  }
+
+  /**
+   * Cancels a pending transaction by replacing it with a transfer of 0 to its
+   * sender, with the same nonce and higher fees
+   * @param hash hash of the pending transaction
+   * returns the hash of the replacement transaction
+   */
+  public cancelTransaction(hash: string): Promise<HexString> {
+    return this._replaceTransaction(hash, MIN_FEE_BUMP, true)
+  }
+
+  /**
+   * Estimates slow, normal and fast fees for the current chain, e.g. to
+   * preview the cost of a transaction
+   */
+  public estimateFees(): Promise<FeeEstimates> {
+    return this._feeEstimator.estimateFees(this.getChainId())
+  }
+
+  /**
+   * Decodes a transaction's calldata against abiRegistry and simulates it
+   * with eth_call, without sending it
+   * @param txParams transaction, as passed to eth_sendTransaction
+   */
+  public previewTransaction(txParams: unknown): Promise<TransactionPreview> {
+    const tx = this._prepareTransactionParams((txParams as any) || {})
+    return previewTransaction(tx, this.abiRegistry, (method, params) =>
+      this._makeNodeRequest(method, params)
+    )
+  }
+
+  /**
+   * Adds a middleware to the pipeline requests made with request, sendAsync
+   * and send with a callback go through. Middlewares run in the order they
+   * are added, before the built-in handlers, and can end a request with their
+   * own result or error, or pass it on with next() and see the response on
+   * the way back. send without a callback cannot wait for middlewares, and
+   * throws while any are added unless they skip synchronous requests.
+   * @param middleware json-rpc-engine middleware
+   * @param options whether synchronous requests bypass the middleware
+   * returns a function that removes the middleware
+   */
+  public addMiddleware(
+    middleware: ProviderMiddleware,
+    options: ProviderMiddlewareOptions = {}
+  ): () => void {
+    const entry = { middleware, options }
+    this._middlewares.push(entry)
+    this._engine = null
+    return () => {
+      const index = this._middlewares.indexOf(entry)
+      if (index !== -1) {
+        this._middlewares.splice(index, 1)
+        this._engine = null
+      }
+    }
+  }
+
   public supportsSubscriptions(): boolean {
     return false
   }
@@ -485,6 +832,18 @@ export class WalletLinkProvider
     }
     const { method } = request
 
+    // middlewares only see asynchronous requests, so sync calls would skip
+    // those that did not opt out of them
+    if (
+      this._middlewares.some(({ options }) => !options.skipSynchronousRequests)
+    ) {
+      throw new Error(
+        `WalletLink cannot call ${method} synchronously while middlewares are ` +
+          `added. Please provide a callback parameter to call ${method} ` +
+          `asynchronously.`
+      )
+    }
+
     response.result = this._handleSynchronousMethods(request)
 
     if (response.result === undefined) {
@@ -503,15 +862,20 @@ export class WalletLinkProvider
       throw new Error("addresses is not an array")
     }
 
-    const newAddresses = addresses.map(address => ensureAddressString(address))
+    // the selected address comes first, keep the first of any duplicates
+    const newAddresses = addresses
+      .map(address => ensureAddressString(address))
+      .filter((address, i, all) => all.indexOf(address) === i)
 
     if (JSON.stringify(newAddresses) === JSON.stringify(this._addresses)) {
       return
     }
 
+    // persist before notifying, so listeners reading state see the new order
     this._addresses = newAddresses
-    this.emit("accountsChanged", this._addresses)
     this._storage.setItem(LOCAL_STORAGE_ADDRESSES_KEY, newAddresses.join(" "))
+    this._updateAccountsPermission(newAddresses)
+    this.emit("accountsChanged", this._eth_accounts())
     window.dispatchEvent(
       new CustomEvent("walletlink:addresses", { detail: this._addresses })
     )
@@ -519,45 +883,39 @@ export class WalletLinkProvider
 
   private _sendRequestAsync(request: JSONRPCRequest): Promise<JSONRPCResponse> {
     return new Promise<JSONRPCResponse>((resolve, reject) => {
-      try {
-        const syncResult = this._handleSynchronousMethods(request)
-        if (syncResult !== undefined) {
-          return resolve({
-            jsonrpc: "2.0",
-            id: request.id,
-            result: syncResult
-          })
-        }
+      this._getEngine().handle(request, (err, res) =>
+        err ? reject(err) : resolve(res as JSONRPCResponse)
+      )
+    })
+  }
 
-        const filterPromise = this._handleAsynchronousFilterMethods(request)
-        if (filterPromise !== undefined) {
-          filterPromise
-            .then(res => resolve({ ...res, id: request.id }))
-            .catch(err => reject(err))
-          return
-        }
+  private _getEngine(): JsonRpcEngine {
+    if (!this._engine) {
+      const engine = new JsonRpcEngine()
+      this._middlewares.forEach(({ middleware }) => engine.push(middleware))
+      this._builtInMiddlewares().forEach(middleware => engine.push(middleware))
+      this._engine = engine
+    }
+    return this._engine
+  }
 
-        const subscriptionPromise = this._handleSubscriptionMethods(request)
-        if (subscriptionPromise !== undefined) {
-          subscriptionPromise
-            .then(res =>
-              resolve({
-                jsonrpc: "2.0",
-                id: request.id,
-                result: res.result
-              })
-            )
-            .catch(err => reject(err))
-          return
+  // in order: methods answered from local state, filters, subscriptions,
+  // methods handled by the wallet, and the node for everything else
+  private _builtInMiddlewares(): ProviderMiddleware[] {
+    return [
+      (req, res, next, end) => {
+        const result = this._handleSynchronousMethods(req as JSONRPCRequest)
+        if (result === undefined) {
+          return next()
         }
-      } catch (err: any) {
-        return reject(err)
-      }
-
-      this._handleAsynchronousMethods(request)
-        .then(res => res && resolve({ ...res, id: request.id }))
-        .catch(err => reject(err))
-    })
+        res.result = result
+        end()
+      },
+      handlerMiddleware(req => this._handleAsynchronousFilterMethods(req)),
+      handlerMiddleware(req => this._handleSubscriptionMethods(req)),
+      handlerMiddleware(req => this._handleAsynchronousMethods(req)),
+      handlerMiddleware(req => this._makeEthereumJSONRPCRequest(req))
+    ]
   }
 
   private _sendMultipleRequestsAsync(
@@ -586,14 +944,17 @@ export class WalletLinkProvider
       case JSONRPCMethod.eth_chainId:
         return this._eth_chainId()
 
+      case JSONRPCMethod.wallet_getPermissions:
+        return this._wallet_getPermissions()
+
       default:
         return undefined
     }
   }
 
-  private async _handleAsynchronousMethods(
+  private _handleAsynchronousMethods(
     request: JSONRPCRequest
-  ): Promise<JSONRPCResponse | void> {
+  ): Promise<JSONRPCResponse> | undefined {
     const { method } = request
     const params = request.params || []
 
@@ -613,6 +974,12 @@ export class WalletLinkProvider
       case JSONRPCMethod.personal_ecRecover:
         return this._personal_ecRecover(params)
 
+      case JSONRPCMethod.eth_getEncryptionPublicKey:
+        return this._eth_getEncryptionPublicKey(params)
+
+      case JSONRPCMethod.eth_decrypt:
+        return this._eth_decrypt(params)
+
       case JSONRPCMethod.eth_signTransaction:
         return this._eth_signTransaction(params)
 
@@ -643,10 +1010,30 @@ export class WalletLinkProvider
 
       case JSONRPCMethod.wallet_switchEthereumChain:
         return this._wallet_switchEthereumChain(params)
+
+      case JSONRPCMethod.wallet_watchAsset:
+        return this._wallet_watchAsset(params)
+
+      case JSONRPCMethod.wallet_requestPermissions:
+        return this._wallet_requestPermissions(params)
+
+      case JSONRPCMethod.wallet_revokePermissions:
+        return this._wallet_revokePermissions(params)
+
+      case JSONRPCMethod.wallet_sendCalls:
+        return this._wallet_sendCalls(params)
+
+      case JSONRPCMethod.wallet_getCallsStatus:
+        return this._wallet_getCallsStatus(params)
+
+      case JSONRPCMethod.wallet_showCallsStatus:
+        return this._wallet_showCallsStatus(params)
+
+      case JSONRPCMethod.wallet_getCapabilities:
+        return this._wallet_getCapabilities(params)
     }
 
-    const relay = await this.initializeRelay()
-    return relay.makeEthereumJSONRPCRequest(request, this.jsonRpcUrl)
+    return undefined
   }
 
   private _handleAsynchronousFilterMethods(
@@ -670,6 +1057,13 @@ export class WalletLinkProvider
 
       case JSONRPCMethod.eth_getFilterLogs:
         return this._eth_getFilterLogs(params)
+
+      case JSONRPCMethod.eth_getLogs:
+        // ranges requested by the polyfill itself go to the node as they are
+        if (this._filterPolyfill.isLogRangeRequest(request)) {
+          return undefined
+        }
+        return this._eth_getLogs(params)
     }
 
     return undefined
@@ -681,12 +1075,37 @@ export class WalletLinkProvider
     switch (request.method) {
       case JSONRPCMethod.eth_subscribe:
       case JSONRPCMethod.eth_unsubscribe:
-        return this._subscriptionManager.handleRequest(request)
+        return this._getSubscriptionManager().handleRequest(request)
     }
 
     return undefined
   }
 
+  private _getSubscriptionManager():
+    | SubscriptionManager
+    | WebSocketSubscriptionManager {
+    if (this._subscriptionManager) {
+      return this._subscriptionManager
+    }
+
+    // subscribe natively when the node is reachable over a websocket,
+    // otherwise poll for new blocks
+    const manager = isWebSocketUrl(this.jsonRpcUrl)
+      ? new WebSocketSubscriptionManager(this.jsonRpcUrl)
+      : new SubscriptionManager(this, this._pollingInterval)
+    manager.events.on(
+      "notification",
+      (notification: SubscriptionNotification) => {
+        this.emit("message", {
+          type: notification.method,
+          data: notification.params
+        })
+      }
+    )
+    this._subscriptionManager = manager
+    return manager
+  }
+
   private _isKnownAddress(addressString: string): boolean {
     try {
       const address = ensureAddressString(addressString)
@@ -713,6 +1132,9 @@ export class WalletLinkProvider
     value?: unknown
     data?: unknown
     nonce?: unknown
+    chainId?: unknown
+    type?: unknown
+    accessList?: unknown
   }): EthereumTransactionParams {
     const fromAddress = tx.from
       ? ensureAddressString(tx.from)
@@ -733,7 +1155,23 @@ export class WalletLinkProvider
     const maxPriorityFeePerGas =
       tx.maxPriorityFeePerGas != null ? ensureBN(tx.maxPriorityFeePerGas) : null
     const gasLimit = tx.gas != null ? ensureBN(tx.gas) : null
-    const chainId = this.getChainId()
+    const chainId =
+      tx.chainId != null ? ensureIntNumber(tx.chainId) : this.getChainId()
+    const type = tx.type != null ? ensureTransactionType(tx.type) : null
+    const accessList =
+      tx.accessList != null ? ensureAccessList(tx.accessList) : null
+
+    if (type !== null && type < 2 && (maxFeePerGas || maxPriorityFeePerGas)) {
+      throw new Error(
+        `Transactions of type ${type} do not support EIP-1559 fees`
+      )
+    }
+    if (type === 2 && gasPriceInWei) {
+      throw new Error("Transactions of type 2 do not support gasPrice")
+    }
+    if (type === 0 && accessList) {
+      throw new Error("Transactions of type 0 do not support access lists")
+    }
 
     return {
       fromAddress,
@@ -745,11 +1183,108 @@ export class WalletLinkProvider
       maxFeePerGas,
       maxPriorityFeePerGas,
       gasLimit,
-      chainId
+      chainId,
+      type,
+      accessList
     }
   }
 
+  private _getPermissions(): Web3Permission[] {
+    const storedPermissions = this._storage.getItem(
+      LOCAL_STORAGE_PERMISSIONS_KEY
+    )
+
+    if (storedPermissions === null) {
+      // sessions linked before permissions were persisted have an implicit
+      // eth_accounts grant for their cached addresses, dated when first read
+      if (this._addresses.length === 0) {
+        return []
+      }
+      const permissions = [accountsPermission(this._addresses, Date.now())]
+      this._setPermissions(permissions)
+      return permissions
+    }
+
+    try {
+      const permissions = JSON.parse(storedPermissions)
+      return Array.isArray(permissions) ? permissions : []
+    } catch {
+      return []
+    }
+  }
+
+  private _setPermissions(permissions: Web3Permission[]): void {
+    this._storage.setItem(
+      LOCAL_STORAGE_PERMISSIONS_KEY,
+      JSON.stringify(permissions)
+    )
+  }
+
+  private _updateAccountsPermission(addresses: AddressString[]): void {
+    const permissions = this._getPermissions()
+    const existing = permissions.find(
+      p => p.parentCapability === JSONRPCMethod.eth_accounts
+    )
+    const otherPermissions = permissions.filter(p => p !== existing)
+
+    if (addresses.length === 0) {
+      this._setPermissions(otherPermissions)
+      return
+    }
+
+    this._setPermissions([
+      ...otherPermissions,
+      accountsPermission(addresses, existing?.date ?? Date.now())
+    ])
+  }
+
+  /**
+   * True once the dapp has explicitly revoked eth_accounts, until it is
+   * requested again. Account updates pushed by the wallet are ignored meanwhile.
+   */
+  private get _isAccountsPermissionRevoked(): boolean {
+    return this._storage.getItem(LOCAL_STORAGE_ACCOUNTS_REVOKED_KEY) === "true"
+  }
+
+  private async _getCapabilities(
+    address: AddressString
+  ): Promise<WalletCapabilities> {
+    const key = `${this.getChainId()}:${address}`
+    const cached = this._capabilities.get(key)
+    if (cached) {
+      return cached
+    }
+
+    const relay = await this.initializeRelay()
+    const { promise, cancel } = relay.getCapabilities(address)
+    let timer: ReturnType<typeof setTimeout> | undefined
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        cancel()
+        reject(new Error("wallet_getCapabilities timed out"))
+      }, CAPABILITIES_TIMEOUT)
+    })
+
+    let capabilities: WalletCapabilities
+    try {
+      capabilities = (await Promise.race([promise, timeout])).result ?? {}
+    } catch {
+      // wallets predating EIP-5792 report no capabilities
+      capabilities = {}
+    } finally {
+      clearTimeout(timer)
+    }
+    // cached even if empty, so that the wallet is asked only once
+    this._capabilities.set(key, capabilities)
+    return capabilities
+  }
+
   private _requireAuthorization(): void {
+    if (this.isWatchOnly) {
+      throw ethErrors.provider.unauthorized(
+        "Watched addresses are read-only, call eth_requestAccounts to link a wallet"
+      )
+    }
     if (this._addresses.length === 0) {
       throw ethErrors.provider.unauthorized({})
     }
@@ -803,8 +1338,132 @@ export class WalletLinkProvider
     return { jsonrpc: "2.0", id: 0, result: res.result }
   }
 
+  private async _isValidSignatureEIP1271(
+    address: AddressString,
+    hash: Buffer,
+    signature: Buffer
+  ): Promise<boolean> {
+    // abi encoded isValidSignature(bytes32 hash, bytes signature)
+    const data = Buffer.concat([
+      Buffer.from(EIP1271_MAGIC_VALUE, "hex"),
+      hash,
+      new BN(64).toArrayLike(Buffer, "be", 32),
+      new BN(signature.length).toArrayLike(Buffer, "be", 32),
+      signature,
+      Buffer.alloc((32 - (signature.length % 32)) % 32)
+    ])
+
+    try {
+      const res = await this._makeEthereumJSONRPCRequest({
+        jsonrpc: "2.0",
+        id: 0,
+        method: "eth_call",
+        params: [
+          { to: address, data: hexStringFromBuffer(data, true) },
+          "latest"
+        ]
+      })
+      const result = res ? String(res.result) : ""
+      return strip0x(result).slice(0, 8).toLowerCase() === EIP1271_MAGIC_VALUE
+    } catch {
+      // contracts may reject a signature by reverting
+      return false
+    }
+  }
+
+  private async _replaceTransaction(
+    hash: string,
+    feeBump: number,
+    cancel: boolean
+  ): Promise<HexString> {
+    this._requireAuthorization()
+    if (!(feeBump >= MIN_FEE_BUMP)) {
+      throw ethErrors.rpc.invalidParams({
+        message: `Fees must be bumped by a factor of at least ${MIN_FEE_BUMP}`,
+        data: feeBump
+      })
+    }
+
+    const res = await this._makeEthereumJSONRPCRequest({
+      jsonrpc: "2.0",
+      id: 0,
+      method: "eth_getTransactionByHash",
+      params: [ensureHexString(hash, true)]
+    })
+    const pending = res?.result
+    if (!pending) {
+      throw ethErrors.rpc.invalidParams({
+        message: "Transaction not found",
+        data: hash
+      })
+    }
+    if (pending.blockHash) {
+      throw ethErrors.rpc.invalidParams({
+        message: "Transaction has already been mined",
+        data: hash
+      })
+    }
+
+    const tx = this._prepareTransactionParams({
+      from: pending.from,
+      to: cancel ? pending.from : pending.to,
+      value: cancel ? 0 : pending.value,
+      data: cancel ? undefined : pending.input,
+      nonce: pending.nonce,
+      gas: cancel ? CANCEL_GAS_LIMIT : pending.gas,
+      type: pending.type,
+      accessList: cancel ? undefined : pending.accessList
+    })
+    // pay the current fees if they are above the bumped ones
+    const estimate = await this._estimateTransactionFees(tx)
+    if (pending.maxFeePerGas != null) {
+      tx.maxFeePerGas = BN.max(
+        bumpFee(ensureBN(pending.maxFeePerGas), feeBump),
+        estimate.maxFeePerGas ?? new BN(0)
+      )
+      tx.maxPriorityFeePerGas = BN.max(
+        bumpFee(ensureBN(pending.maxPriorityFeePerGas ?? 0), feeBump),
+        estimate.maxPriorityFeePerGas ?? new BN(0)
+      )
+    } else {
+      tx.gasPriceInWei = BN.max(
+        bumpFee(ensureBN(pending.gasPrice), feeBump),
+        estimate.gasPriceInWei ?? estimate.maxFeePerGas ?? new BN(0)
+      )
+    }
+
+    return this._signAndSubmitTransaction(tx)
+  }
+
+  private async _makeNodeRequest(
+    method: string,
+    params: unknown[]
+  ): Promise<any> {
+    const res = await this._makeEthereumJSONRPCRequest({
+      jsonrpc: "2.0",
+      id: 0,
+      method,
+      params
+    })
+    return res?.result
+  }
+
+  // requests go over the websocket when the node is reachable through one
+  private async _makeEthereumJSONRPCRequest(
+    request: JSONRPCRequest
+  ): Promise<JSONRPCResponse | void> {
+    const manager = isWebSocketUrl(this.jsonRpcUrl)
+      ? this._getSubscriptionManager()
+      : null
+    if (manager instanceof WebSocketSubscriptionManager) {
+      return manager.request(request)
+    }
+    const relay = await this.initializeRelay()
+    return relay.makeEthereumJSONRPCRequest(request, this.jsonRpcUrl)
+  }
+
   private _eth_accounts(): string[] {
-    return [...this._addresses]
+    return this.isWatchOnly ? [...this._watchAddresses] : [...this._addresses]
   }
 
   private _eth_coinbase(): string | null {
@@ -860,6 +1519,7 @@ export class WalletLinkProvider
       throw new Error("accounts received is empty")
     }
 
+    this._storage.removeItem(LOCAL_STORAGE_ACCOUNTS_REVOKED_KEY)
     this._setAddresses(res.result)
     return { jsonrpc: "2.0", id: 0, result: this._addresses }
   }
@@ -893,6 +1553,62 @@ export class WalletLinkProvider
     return this._ethereumAddressFromSignedMessage(message, signature, true)
   }
 
+  private async _eth_getEncryptionPublicKey(
+    params: unknown[]
+  ): Promise<JSONRPCResponse> {
+    this._requireAuthorization()
+    const address = ensureAddressString(params[0])
+    this._ensureKnownAddress(address)
+
+    try {
+      const relay = await this.initializeRelay()
+      const res = await relay.getEncryptionPublicKey(address).promise
+      return { jsonrpc: "2.0", id: 0, result: res.result }
+    } catch (err: any) {
+      if (
+        typeof err.message === "string" &&
+        err.message.match(/(denied|rejected)/i)
+      ) {
+        throw ethErrors.provider.userRejectedRequest(
+          "User denied encryption public key request"
+        )
+      }
+      throw err
+    }
+  }
+
+  private async _eth_decrypt(params: unknown[]): Promise<JSONRPCResponse> {
+    this._requireAuthorization()
+    const message = ensureBuffer(params[0])
+    const address = ensureAddressString(params[1])
+    this._ensureKnownAddress(address)
+
+    try {
+      parseEncryptedData(message)
+    } catch (err) {
+      throw ethErrors.rpc.invalidParams({
+        message: (err as Error).message,
+        data: params[0]
+      })
+    }
+
+    try {
+      const relay = await this.initializeRelay()
+      const res = await relay.decryptEthereumMessage(message, address).promise
+      return { jsonrpc: "2.0", id: 0, result: res.result }
+    } catch (err: any) {
+      if (
+        typeof err.message === "string" &&
+        err.message.match(/(denied|rejected)/i)
+      ) {
+        throw ethErrors.provider.userRejectedRequest(
+          "User denied message decryption"
+        )
+      }
+      throw err
+    }
+  }
+
   private async _eth_signTransaction(
     params: unknown[]
   ): Promise<JSONRPCResponse> {
@@ -901,6 +1617,7 @@ export class WalletLinkProvider
     try {
       const relay = await this.initializeRelay()
       const res = await relay.signEthereumTransaction(tx).promise
+      this._verifySignedTransaction(tx, ensureBuffer(res.result))
       return { jsonrpc: "2.0", id: 0, result: res.result }
     } catch (err: any) {
       if (
@@ -915,27 +1632,164 @@ export class WalletLinkProvider
     }
   }
 
+  /**
+   * Throws if the transaction signed by the wallet is not the one requested
+   */
+  private _verifySignedTransaction(
+    tx: EthereumTransactionParams,
+    signedTransaction: Buffer
+  ): void {
+    let signed: SignedTransaction
+    try {
+      signed = decodeSignedTransaction(signedTransaction)
+    } catch (err) {
+      throw ethErrors.rpc.internal({
+        message: `Wallet returned a malformed transaction: ${
+          (err as Error).message
+        }`,
+        data: hexStringFromBuffer(signedTransaction, true)
+      })
+    }
+
+    const mismatches: string[] = []
+    if (signed.to !== tx.toAddress) {
+      mismatches.push("to")
+    }
+    if (!signed.value.eq(tx.weiValue)) {
+      mismatches.push("value")
+    }
+    if (!signed.data.equals(tx.data)) {
+      mismatches.push("data")
+    }
+    if (signed.chainId !== tx.chainId) {
+      mismatches.push("chainId")
+    }
+    if (recoverTransactionSender(signed) !== tx.fromAddress) {
+      mismatches.push("from")
+    }
+    if (mismatches.length > 0) {
+      throw ethErrors.rpc.internal({
+        message: `Signed transaction does not match the request: ${mismatches.join(
+          ", "
+        )}`,
+        data: hexStringFromBuffer(signedTransaction, true)
+      })
+    }
+  }
+
+  private _onTransactionSubmitted(
+    hash: HexString,
+    chainId: IntNumber,
+    tx?: Pick<EthereumTransactionParams, "fromAddress" | "nonce">
+  ): void {
+    this._filterPolyfill.addPendingTransaction(hash)
+    this._transactionTracker.track(
+      hash,
+      chainId,
+      tx?.fromAddress,
+      tx?.nonce ?? null
+    )
+  }
+
   private async _eth_sendRawTransaction(
     params: unknown[]
   ): Promise<JSONRPCResponse> {
     const signedTransaction = ensureBuffer(params[0])
+    let signed: SignedTransaction
+    try {
+      signed = decodeSignedTransaction(signedTransaction)
+    } catch (err: any) {
+      throw ethErrors.rpc.invalidParams({
+        message: err.message,
+        data: params[0]
+      })
+    }
+    const chainId = this.getChainId()
+    if (signed.chainId !== null && signed.chainId !== chainId) {
+      throw ethErrors.rpc.invalidParams({
+        message: `Transaction is for chain ${signed.chainId}, not ${chainId}`,
+        data: params[0]
+      })
+    }
+
     const relay = await this.initializeRelay()
     const res = await relay.submitEthereumTransaction(
       signedTransaction,
-      this.getChainId()
+      chainId
     ).promise
-    return { jsonrpc: "2.0", id: 0, result: res.result }
+    if (!res.result) {
+      return { jsonrpc: "2.0", id: 0, result: res.result }
+    }
+
+    // the hash of the submitted transaction is known without trusting the
+    // wallet, which must have submitted this very transaction
+    const hash = hashSignedTransaction(signedTransaction)
+    if (ensureHexString(res.result, true).toLowerCase() !== hash) {
+      throw ethErrors.rpc.internal({
+        message: `Wallet reported hash ${res.result} for transaction ${hash}`,
+        data: { hash, walletHash: res.result }
+      })
+    }
+    const from = recoverTransactionSender(signed)
+    this._onTransactionSubmitted(
+      hash,
+      chainId,
+      from ? { fromAddress: from, nonce: signed.nonce } : undefined
+    )
+    return { jsonrpc: "2.0", id: 0, result: hash }
   }
 
   private async _eth_sendTransaction(
     params: unknown[]
   ): Promise<JSONRPCResponse> {
     this._requireAuthorization()
-    const tx = this._prepareTransactionParams((params[0] as any) || {})
+    const tx = await this._estimateTransactionFees(
+      this._prepareTransactionParams((params[0] as any) || {})
+    )
+    const result = await this._signAndSubmitTransaction(tx)
+    return { jsonrpc: "2.0", id: 0, result }
+  }
+
+  // fills in the missing fields of the transaction, if fee estimation is on
+  private async _estimateTransactionFees(
+    tx: EthereumTransactionParams
+  ): Promise<EthereumTransactionParams> {
+    if (!this._feeEstimation) {
+      return tx
+    }
+    try {
+      return await this._feeEstimator.fillTransaction(tx, this._feeEstimation)
+    } catch {
+      // leave the missing fields to the wallet
+      return tx
+    }
+  }
+
+  // previews the transaction, if enabled, while the wallet signs it
+  private async _signAndSubmitTransaction(
+    tx: EthereumTransactionParams
+  ): Promise<HexString> {
+    const relay = await this.initializeRelay()
+    const preview = { settled: false, hide: () => {} }
+    if (this._transactionPreview) {
+      // the preview is shown once the simulation returns, without holding
+      // up the request to the wallet
+      previewTransaction(tx, this.abiRegistry, (method, args) =>
+        this._makeNodeRequest(method, args)
+      )
+        .then(result => {
+          if (!preview.settled) {
+            preview.hide = relay.showTransactionPreview(result)
+          }
+        })
+        .catch(() => {
+          // the wallet still shows the transaction
+        })
+    }
     try {
-      const relay = await this.initializeRelay()
       const res = await relay.signAndSubmitEthereumTransaction(tx).promise
-      return { jsonrpc: "2.0", id: 0, result: res.result }
+      this._onTransactionSubmitted(res.result!, tx.chainId, tx)
+      return res.result!
     } catch (err: any) {
       if (
         typeof err.message === "string" &&
@@ -946,6 +1800,9 @@ export class WalletLinkProvider
         )
       }
       throw err
+    } finally {
+      preview.settled = true
+      preview.hide()
     }
   }
 
@@ -1066,6 +1923,257 @@ export class WalletLinkProvider
     return { jsonrpc: "2.0", id: 0, result: null }
   }
 
+  private async _wallet_watchAsset(params: unknown): Promise<JSONRPCResponse> {
+    const request = (
+      Array.isArray(params) ? params[0] : params
+    ) as WatchAssetParams
+
+    if (!request || typeof request !== "object") {
+      throw ethErrors.rpc.invalidParams({
+        message: "Expected a single, non-array, object argument."
+      })
+    }
+
+    if (!request.type || !SUPPORTED_WATCH_ASSET_TYPES.includes(request.type)) {
+      throw ethErrors.rpc.invalidParams({
+        message: `Asset of type '${String(request.type)}' is not supported`
+      })
+    }
+
+    if (!request.options || typeof request.options !== "object") {
+      throw ethErrors.rpc.invalidParams({
+        message: "'options' is a required field"
+      })
+    }
+
+    const { address, symbol, decimals, image, tokenId } = request.options
+
+    if (!address) {
+      throw ethErrors.rpc.invalidParams({
+        message: "'address' is a required field"
+      })
+    }
+
+    try {
+      ensureAddressString(address)
+    } catch {
+      throw ethErrors.rpc.invalidParams({
+        message: `Invalid address '${String(address)}'`
+      })
+    }
+
+    if (symbol !== undefined && (typeof symbol !== "string" || !symbol)) {
+      throw ethErrors.rpc.invalidParams({
+        message: "'symbol' must be a non-empty string if provided"
+      })
+    }
+
+    if (
+      decimals !== undefined &&
+      (!Number.isInteger(decimals) || decimals < 0 || decimals > 36)
+    ) {
+      throw ethErrors.rpc.invalidParams({
+        message: `Invalid decimals: must be an integer between 0 and 36`
+      })
+    }
+
+    if (image !== undefined && typeof image !== "string") {
+      throw ethErrors.rpc.invalidParams({
+        message: "'image' must be a string if provided"
+      })
+    }
+
+    if (request.type === "ERC721" && !tokenId) {
+      throw ethErrors.rpc.invalidParams({
+        message: "'tokenId' is required for ERC721 assets"
+      })
+    }
+
+    const success = await this.watchAsset(
+      request.type,
+      address,
+      symbol,
+      decimals,
+      image,
+      tokenId === undefined ? undefined : String(tokenId)
+    )
+    return { jsonrpc: "2.0", id: 0, result: success }
+  }
+
+  private _wallet_getPermissions(): Web3Permission[] {
+    return this._getPermissions()
+  }
+
+  private async _wallet_requestPermissions(
+    params: unknown[]
+  ): Promise<JSONRPCResponse> {
+    const requestedMethods = requestedPermissionMethods(params[0])
+
+    if (requestedMethods.some(m => m !== JSONRPCMethod.eth_accounts)) {
+      throw ethErrors.rpc.invalidParams({
+        message: "Only the eth_accounts permission is supported",
+        data: params[0]
+      })
+    }
+
+    await this._eth_requestAccounts()
+    // cached addresses short-circuit _setAddresses, so record the grant here
+    this._updateAccountsPermission(this._addresses)
+
+    const result = this._getPermissions().filter(p =>
+      requestedMethods.includes(p.parentCapability)
+    )
+    return { jsonrpc: "2.0", id: 0, result }
+  }
+
+  private _wallet_revokePermissions(
+    params: unknown[]
+  ): Promise<JSONRPCResponse> {
+    const requestedMethods = requestedPermissionMethods(params[0])
+
+    if (requestedMethods.includes(JSONRPCMethod.eth_accounts)) {
+      this._setAddresses([])
+      this._storage.removeItem(LOCAL_STORAGE_ADDRESSES_KEY)
+      this._storage.setItem(LOCAL_STORAGE_ACCOUNTS_REVOKED_KEY, "true")
+    }
+
+    this._setPermissions(
+      this._getPermissions().filter(
+        p => !requestedMethods.includes(p.parentCapability)
+      )
+    )
+    return Promise.resolve({ jsonrpc: "2.0", id: 0, result: null })
+  }
+
+  private async _wallet_sendCalls(params: unknown[]): Promise<JSONRPCResponse> {
+    this._requireAuthorization()
+    const request = params[0] as SendCallsParams
+
+    if (
+      !request ||
+      typeof request !== "object" ||
+      !Array.isArray(request.calls) ||
+      request.calls.length === 0
+    ) {
+      throw ethErrors.rpc.invalidParams({
+        message: "'calls' must be a non-empty array",
+        data: request
+      })
+    }
+
+    const chainId = this.getChainId()
+    if (
+      request.chainId !== undefined &&
+      ensureIntNumber(request.chainId) !== chainId
+    ) {
+      // EIP-5792 codes are outside the range ethErrors.provider accepts
+      throw new EthereumRpcError(
+        5710,
+        `Unsupported chain id ${String(request.chainId)}`
+      )
+    }
+
+    const transactions = request.calls.map(call =>
+      this._prepareTransactionParams({
+        from: request.from,
+        to: call.to,
+        value: call.value,
+        data: call.data
+      })
+    )
+    const { fromAddress } = transactions[0]
+
+    const capabilities = await this._getCapabilities(fromAddress)
+    const atomic = capabilities[hexStringFromIntNumber(chainId)]?.atomic as
+      | { status?: unknown }
+      | undefined
+    const atomicStatus = atomic?.status
+    const isAtomic = atomicStatus === "supported" || atomicStatus === "ready"
+
+    if (!isAtomic && request.atomicRequired) {
+      throw new EthereumRpcError(
+        5760,
+        "Wallet does not support atomic execution of calls"
+      )
+    }
+
+    let id: string
+    try {
+      const relay = await this.initializeRelay()
+      if (isAtomic) {
+        const res = await relay.sendCalls(
+          fromAddress,
+          transactions,
+          chainId,
+          !!request.atomicRequired
+        ).promise
+        id = res.result!
+      } else {
+        id = await this._sendCallsPolyfill.sendCalls(
+          transactions,
+          chainId,
+          async tx => {
+            const res = await relay.signAndSubmitEthereumTransaction(tx).promise
+            this._onTransactionSubmitted(res.result!, tx.chainId, tx)
+            return res.result!
+          }
+        )
+      }
+    } catch (err: any) {
+      if (
+        typeof err.message === "string" &&
+        err.message.match(/(denied|rejected)/i)
+      ) {
+        throw ethErrors.provider.userRejectedRequest(
+          "User denied transaction signature"
+        )
+      }
+      throw err
+    }
+
+    return { jsonrpc: "2.0", id: 0, result: { id } }
+  }
+
+  private async _wallet_getCallsStatus(
+    params: unknown[]
+  ): Promise<JSONRPCResponse> {
+    const id = ensureCallsId(params[0])
+
+    let result: CallsStatus | undefined
+    if (this._sendCallsPolyfill.hasBundle(id)) {
+      result = await this._sendCallsPolyfill.getCallsStatus(id)
+    } else {
+      const relay = await this.initializeRelay()
+      const res = await relay.getCallsStatus(id).promise
+      result = res.result
+    }
+    return { jsonrpc: "2.0", id: 0, result }
+  }
+
+  private async _wallet_showCallsStatus(
+    params: unknown[]
+  ): Promise<JSONRPCResponse> {
+    const id = ensureCallsId(params[0])
+
+    // calls sent one at a time were each already shown to the user
+    if (!this._sendCallsPolyfill.hasBundle(id)) {
+      const relay = await this.initializeRelay()
+      await relay.showCallsStatus(id).promise
+    }
+    return { jsonrpc: "2.0", id: 0, result: null }
+  }
+
+  private async _wallet_getCapabilities(
+    params: unknown[]
+  ): Promise<JSONRPCResponse> {
+    this._requireAuthorization()
+    const address = ensureAddressString(params[0])
+    this._ensureKnownAddress(address)
+
+    const result = await this._getCapabilities(address)
+    return { jsonrpc: "2.0", id: 0, result }
+  }
+
   private _eth_uninstallFilter(params: unknown[]): boolean {
     const filterId = ensureHexString(params[0])
     return this._filterPolyfill.uninstallFilter(filterId)
@@ -1097,13 +2205,21 @@ export class WalletLinkProvider
     return this._filterPolyfill.getFilterLogs(filterId)
   }
 
+  private _eth_getLogs(params: unknown[]): Promise<JSONRPCResponse> {
+    const param = (params[0] as any) || {}
+    return this._filterPolyfill.getLogs(param)
+  }
+
   private initializeRelay(): Promise<WalletLinkRelayAbstract> {
     if (this._relay) {
       return Promise.resolve(this._relay)
     }
 
     return this._relayProvider().then(relay => {
-      relay.setAccountsCallback(accounts => this._setAddresses(accounts))
+      relay.setAccountsCallback(accounts => {
+        if (this._isAccountsPermissionRevoked) return
+        this._setAddresses(accounts)
+      })
       relay.setChainCallback((chainId, jsonRpcUrl) => {
         this.updateProviderInfo(jsonRpcUrl, parseInt(chainId, 10), true)
       })
@@ -1129,3 +2245,141 @@ interface AddEthereumChainParams {
 interface SwitchEthereumChainParams {
   chainId: string
 }
+
+export interface SignInWithEthereumOptions {
+  address?: string
+  statement?: string
+  uri?: string
+  nonce?: string
+  expirationTime?: Date
+  notBefore?: Date
+  requestId?: string
+  resources?: string[]
+}
+
+export interface SignInWithEthereumResult {
+  message: SiweMessage
+  rawMessage: string
+  signature: HexString
+}
+
+export interface Web3Permission {
+  invoker: string
+  parentCapability: string
+  caveats: {
+    type: string
+    value: unknown
+  }[]
+  date: number
+}
+
+function accountsPermission(
+  addresses: AddressString[],
+  date: number
+): Web3Permission {
+  return {
+    invoker: location.origin,
+    parentCapability: JSONRPCMethod.eth_accounts,
+    caveats: [{ type: "restrictReturnedAccounts", value: [...addresses] }],
+    date
+  }
+}
+
+function requestedPermissionMethods(param: unknown): string[] {
+  if (!param || typeof param !== "object" || Array.isArray(param)) {
+    throw ethErrors.rpc.invalidParams({
+      message: "Expected a single, non-array, object argument.",
+      data: param
+    })
+  }
+
+  const methods = Object.keys(param)
+  if (methods.length === 0) {
+    throw ethErrors.rpc.invalidParams({
+      message: "At least one permission must be specified",
+      data: param
+    })
+  }
+  return methods
+}
+
+interface SendCallsParams {
+  version?: string
+  chainId?: string
+  from?: string
+  atomicRequired?: boolean
+  calls: {
+    to?: string
+    data?: string
+    value?: string
+  }[]
+}
+
+/**
+ * @param fee fee in wei
+ * @param feeBump factor to multiply the fee by
+ * returns the bumped fee, rounded up
+ */
+function bumpFee(fee: BN, feeBump: number): BN {
+  return fee
+    .muln(Math.round(feeBump * 100))
+    .addn(99)
+    .divn(100)
+}
+
+function ensureCallsId(id: unknown): string {
+  if (typeof id !== "string" || id.length === 0) {
+    throw ethErrors.rpc.invalidParams({
+      message: "Expected a call bundle id",
+      data: id
+    })
+  }
+  return id
+}
+
+const SUPPORTED_WATCH_ASSET_TYPES = ["ERC20", "ERC721"]
+
+interface WatchAssetParams {
+  type: string
+  options?: {
+    address?: string
+    symbol?: string
+    decimals?: number
+    image?: string
+    tokenId?: string
+  }
+}
+
+type HandlerResponse = Pick<JSONRPCResponse, "result" | "error">
+
+/**
+ * Ends requests the handler returns a promise for with its result or error,
+ * and passes on the others
+ */
+function handlerMiddleware(
+  handle: (
+    request: JSONRPCRequest
+  ) => Promise<HandlerResponse | void> | undefined
+): ProviderMiddleware {
+  return (req, res, next, end) => {
+    let promise: Promise<HandlerResponse | void> | undefined
+    try {
+      promise = handle(req as JSONRPCRequest)
+    } catch (err) {
+      return end(err as Error)
+    }
+    if (promise === undefined) {
+      return next()
+    }
+    promise
+      .then(response => {
+        if (response?.error) {
+          res.error = response.error
+        } else {
+          res.result = response?.result
+        }
+        end()
+      })
+      .catch(err => end(err))
+  }
+}
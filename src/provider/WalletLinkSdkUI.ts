@@ -2,17 +2,22 @@ import { LinkFlow } from "../components/LinkFlow"
 import { Snackbar, SnackbarInstanceProps } from "../components/Snackbar"
 import { injectCssReset } from "../lib/cssReset"
 import {
+  DecryptEthereumMessageRequest,
   EthereumAddressFromSignedMessageRequest,
+  GetEncryptionPublicKeyRequest,
   SignEthereumMessageRequest,
   SignEthereumTransactionRequest,
   SubmitEthereumTransactionRequest
 } from "../relay/Web3Request"
 import {
+  DecryptEthereumMessageResponse,
   EthereumAddressFromSignedMessageResponse,
+  GetEncryptionPublicKeyResponse,
   SignEthereumMessageResponse,
   SignEthereumTransactionResponse,
   SubmitEthereumTransactionResponse
 } from "../relay/Web3Response"
+import { TransactionPreview } from "./TransactionPreview"
 import { WalletLinkUI, WalletLinkUIOptions } from "./WalletLinkUI"
 
 export class WalletLinkSdkUI extends WalletLinkUI {
@@ -33,6 +38,7 @@ export class WalletLinkSdkUI extends WalletLinkUI {
       sessionSecret: options.session.secret,
       walletLinkUrl: options.walletLinkUrl,
       connected$: options.connected$,
+      sessionPublicKey$: options.handshakePublicKey$,
       isParentConnection: false
     })
   }
@@ -85,6 +91,19 @@ export class WalletLinkSdkUI extends WalletLinkUI {
     // no-op
   }
 
+  watchAsset(_: {
+    onCancel: () => void
+    onApprove: () => void
+    type: string
+    address: string
+    symbol?: string
+    decimals?: number
+    image?: string
+    tokenId?: string
+  }): void {
+    // no-op
+  }
+
   requestEthereumAccounts(options: { onCancel: () => void }): void {
     this.linkFlow.open({ onCancel: options.onCancel })
   }
@@ -124,6 +143,22 @@ export class WalletLinkSdkUI extends WalletLinkUI {
     // No-op
   }
 
+  getEncryptionPublicKey(_: {
+    request: GetEncryptionPublicKeyRequest
+    onSuccess: (response: GetEncryptionPublicKeyResponse) => void
+    onCancel: () => void
+  }): void {
+    // No-op
+  }
+
+  decryptEthereumMessage(_: {
+    request: DecryptEthereumMessageRequest
+    onSuccess: (response: DecryptEthereumMessageResponse) => void
+    onCancel: () => void
+  }): void {
+    // No-op
+  }
+
   showConnecting(options: {
     isUnlinkedErrorState?: boolean,
     onCancel: () => void
@@ -181,6 +216,15 @@ export class WalletLinkSdkUI extends WalletLinkUI {
     return this.snackbar.presentItem(snackbarProps)
   }
 
+  showTransactionPreview(preview: TransactionPreview): () => void {
+    const { simulation } = preview
+    let message = preview.description
+    if (simulation && !simulation.success) {
+      message += ` (likely to fail: ${simulation.revertReason || "reverted"})`
+    }
+    return this.snackbar.presentItem({ message })
+  }
+
   reloadUI(): void {
     document.location.reload()
   }
@@ -198,6 +242,10 @@ export class WalletLinkSdkUI extends WalletLinkUI {
     return false
   }
 
+  inlineWatchAsset(): boolean {
+    return false
+  }
+
   isStandalone(): boolean {
     return false
   }
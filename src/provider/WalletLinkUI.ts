@@ -1,18 +1,23 @@
 import { Observable } from "rxjs"
 import { Session } from "../relay/Session"
 import {
+  DecryptEthereumMessageRequest,
   EthereumAddressFromSignedMessageRequest,
+  GetEncryptionPublicKeyRequest,
   SignEthereumMessageRequest,
   SignEthereumTransactionRequest,
   SubmitEthereumTransactionRequest
 } from "../relay/Web3Request"
 import {
+  DecryptEthereumMessageResponse,
   EthereumAddressFromSignedMessageResponse,
+  GetEncryptionPublicKeyResponse,
   SignEthereumMessageResponse,
   SignEthereumTransactionResponse,
   SubmitEthereumTransactionResponse
 } from "../relay/Web3Response"
 import { AddressString } from "../types"
+import { TransactionPreview } from "./TransactionPreview"
 
 
 export interface WalletLinkUIOptions {
@@ -21,6 +26,8 @@ export interface WalletLinkUIOptions {
   darkMode: boolean
   session: Session
   connected$: Observable<boolean>
+  // public key of the session handshake, once generated
+  handshakePublicKey$: Observable<string | null>
 }
 
 export abstract class WalletLinkUI {
@@ -34,7 +41,7 @@ export abstract class WalletLinkUI {
    */
   abstract requestEthereumAccounts(options: {
     onCancel: () => void
-    onAccounts?: (accounts: [AddressString]) => void
+    onAccounts?: (accounts: AddressString[]) => void
   }): void
 
   abstract addEthereumChain(options: {
@@ -58,6 +65,17 @@ export abstract class WalletLinkUI {
     chainId: string
   }): void
 
+  abstract watchAsset(options: {
+    onCancel: () => void
+    onApprove: () => void
+    type: string
+    address: string
+    symbol?: string
+    decimals?: number
+    image?: string
+    tokenId?: string
+  }): void
+
   abstract signEthereumMessage(options: {
     request: SignEthereumMessageRequest
     onSuccess: (response: SignEthereumMessageResponse) => void
@@ -81,6 +99,18 @@ export abstract class WalletLinkUI {
     onSuccess: (response: EthereumAddressFromSignedMessageResponse) => void
   }): void
 
+  abstract getEncryptionPublicKey(options: {
+    request: GetEncryptionPublicKeyRequest
+    onSuccess: (response: GetEncryptionPublicKeyResponse) => void
+    onCancel: () => void
+  }): void
+
+  abstract decryptEthereumMessage(options: {
+    request: DecryptEthereumMessageRequest
+    onSuccess: (response: DecryptEthereumMessageResponse) => void
+    onCancel: () => void
+  }): void
+
   /**
    * Hide the link flow
    */
@@ -123,6 +153,12 @@ export abstract class WalletLinkUI {
    */
   abstract inlineSwitchEthereumChain(): boolean
 
+  /**
+   * If the extension is available, it can handle the watch asset request without
+   * having to send a request over walletlink
+   */
+  abstract inlineWatchAsset(): boolean
+
   /**
    * If the extension is in standalone mode, it can handle signing locally
    */
@@ -132,4 +168,12 @@ export abstract class WalletLinkUI {
    * We want to disable showing the qr code for in-page walletlink if the dapp hasn't provided a json rpc url
    */
   setConnectDisabled(_: boolean) { }
+
+  /**
+   * Shows what a transaction will do while it awaits confirmation
+   * @returns callback that hides the preview
+   */
+  showTransactionPreview(_: TransactionPreview): () => void {
+    return () => {}
+  }
 }
@@ -27,6 +27,31 @@ export interface Web3Provider {
   disconnect(): boolean
 }
 
+/**
+ * Sends a single request through the provider
+ * @param provider provider to send the request through
+ * @param request request to send
+ * @returns the response, which may carry an error
+ */
+export function sendAsyncPromise(
+  provider: Web3Provider,
+  request: JSONRPCRequest
+): Promise<JSONRPCResponse> {
+  return new Promise((resolve, reject) => {
+    provider.sendAsync(request, (err, response) => {
+      if (err) {
+        return reject(err)
+      }
+      if (Array.isArray(response) || response == null) {
+        return reject(
+          new Error(`unexpected response received: ${JSON.stringify(response)}`)
+        )
+      }
+      resolve(response)
+    })
+  })
+}
+
 export interface RequestArguments {
   /** The RPC method to request. */
   method: string
@@ -0,0 +1,257 @@
+// Copyright (c) 2018-2020 WalletLink.org <https://www.walletlink.org/>
+// Copyright (c) 2018-2020 Coinbase, Inc. <https://www.coinbase.com/>
+// Licensed under the Apache License, version 2.0
+
+import SafeEventEmitter from "@metamask/safe-event-emitter"
+import { serializeError } from "eth-rpc-errors"
+import { Observable, Subscription, throwError } from "rxjs"
+import {
+  delay,
+  filter,
+  flatMap,
+  map,
+  retry,
+  skip,
+  take,
+  timeoutWith
+} from "rxjs/operators"
+
+import { ConnectionState, RxWebSocket } from "../connection/RxWebSocket"
+import { prepend0x, randomBytesHex } from "../util"
+import { JSONRPCMethod, JSONRPCRequest, JSONRPCResponse } from "./JSONRPC"
+import {
+  SubscriptionNotification,
+  SubscriptionResult
+} from "./SubscriptionManager"
+
+const RECONNECT_DELAY = 5000
+const REQUEST_TIMEOUT = 60000
+
+interface NodeSubscription {
+  params: unknown[]
+  // id assigned by the node, null while (re)subscribing
+  nodeSubscriptionId: string | null
+}
+
+type IncomingMessage = JSONRPCResponse | SubscriptionNotification
+
+export function isWebSocketUrl(url: string | undefined): boolean {
+  return !!url && /^wss?:\/\//i.test(url)
+}
+
+/**
+ * Sends JSON-RPC requests over a WebSocket endpoint, and handles eth_subscribe
+ * and eth_unsubscribe natively on it. Subscription ids handed out stay the
+ * same across reconnections; the subscriptions are re-established on the node
+ * after each reconnect.
+ */
+export class WebSocketSubscriptionManager {
+  readonly events = new SafeEventEmitter()
+
+  private readonly ws: RxWebSocket<IncomingMessage>
+  private readonly subscriptions = new Subscription()
+  // <subscription id, subscription>
+  private readonly nodeSubscriptions = new Map<string, NodeSubscription>()
+  private nextReqId = 1
+  private started = false
+  private destroyed = false
+
+  /**
+   * Constructor
+   * @param url WebSocket JSON-RPC endpoint
+   * @param [WebSocketClass] Custom WebSocket implementation
+   */
+  constructor(url: string, WebSocketClass: typeof WebSocket = WebSocket) {
+    const ws = new RxWebSocket<IncomingMessage>(url, WebSocketClass)
+    this.ws = ws
+
+    // attempt to reconnect when disconnected
+    this.subscriptions.add(
+      ws.connectionState$
+        .pipe(
+          // ignore initial DISCONNECTED state
+          skip(1),
+          filter(cs => cs === ConnectionState.DISCONNECTED && !this.destroyed),
+          delay(RECONNECT_DELAY),
+          filter(_ => !this.destroyed),
+          flatMap(_ => ws.connect()),
+          retry()
+        )
+        .subscribe()
+    )
+
+    // re-establish subscriptions upon each reconnection
+    this.subscriptions.add(
+      ws.connectionState$
+        .pipe(
+          filter(cs => cs === ConnectionState.CONNECTED),
+          skip(1)
+        )
+        .subscribe(_ => this.resubscribe())
+    )
+
+    // forward notifications under the ids handed out to callers
+    this.subscriptions.add(
+      ws.incomingJSONData$
+        .pipe(
+          filter(
+            m => (m as SubscriptionNotification).method === "eth_subscription"
+          )
+        )
+        .subscribe(m => this.handleNotification(m as SubscriptionNotification))
+    )
+  }
+
+  public async handleRequest(request: {
+    method: string
+    params: any[]
+  }): Promise<SubscriptionResult> {
+    switch (request.method) {
+      case JSONRPCMethod.eth_subscribe:
+        return { result: await this.subscribe(request.params) }
+
+      case JSONRPCMethod.eth_unsubscribe:
+        return { result: await this.unsubscribe(request.params[0]) }
+    }
+    throw new Error(`Unsupported subscription method: ${request.method}`)
+  }
+
+  /**
+   * Sends a request to the node over the WebSocket
+   * @param request JSON-RPC request
+   * returns the response of the node, under the id of the request
+   */
+  public async request(request: JSONRPCRequest): Promise<JSONRPCResponse> {
+    this.connect()
+    const response = await this.sendRequest(request.method, request.params)
+    return { ...response, id: request.id }
+  }
+
+  public destroy(): void {
+    this.destroyed = true
+    this.subscriptions.unsubscribe()
+    this.nodeSubscriptions.clear()
+    this.ws.disconnect()
+    this.events.removeAllListeners()
+  }
+
+  private async subscribe(params: unknown[]): Promise<string> {
+    this.connect()
+    const nodeSubscriptionId = await this.makeRequest<string>(
+      JSONRPCMethod.eth_subscribe,
+      params
+    )
+    const id = prepend0x(randomBytesHex(16))
+    this.nodeSubscriptions.set(id, { params, nodeSubscriptionId })
+    return id
+  }
+
+  private async unsubscribe(id: unknown): Promise<boolean> {
+    const subscription =
+      typeof id === "string" ? this.nodeSubscriptions.get(id) : undefined
+    if (!subscription) {
+      return false
+    }
+    this.nodeSubscriptions.delete(id as string)
+
+    const { nodeSubscriptionId } = subscription
+    if (nodeSubscriptionId !== null) {
+      try {
+        await this.makeRequest(JSONRPCMethod.eth_unsubscribe, [
+          nodeSubscriptionId
+        ])
+      } catch {
+        // the node drops the subscription with the connection anyway
+      }
+    }
+    return true
+  }
+
+  private connect(): void {
+    if (this.destroyed) {
+      throw new Error("instance is destroyed")
+    }
+    if (!this.started) {
+      this.started = true
+      this.ws.connect().subscribe({ error: _ => {} })
+    }
+  }
+
+  private resubscribe(): void {
+    this.nodeSubscriptions.forEach((subscription, id) => {
+      subscription.nodeSubscriptionId = null
+      this.makeRequest<string>(JSONRPCMethod.eth_subscribe, subscription.params)
+        .then(nodeSubscriptionId => {
+          // skip subscriptions removed while resubscribing
+          if (this.nodeSubscriptions.get(id) === subscription) {
+            subscription.nodeSubscriptionId = nodeSubscriptionId
+          }
+        })
+        // retried upon the next reconnection
+        .catch(_ => {})
+    })
+  }
+
+  private handleNotification(notification: SubscriptionNotification): void {
+    const { subscription: nodeSubscriptionId, result } = notification.params
+    this.nodeSubscriptions.forEach((subscription, id) => {
+      if (subscription.nodeSubscriptionId === nodeSubscriptionId) {
+        this.events.emit("notification", {
+          method: notification.method,
+          params: { subscription: id, result }
+        })
+      }
+    })
+  }
+
+  private async makeRequest<T>(method: string, params: unknown[]): Promise<T> {
+    const response = await this.sendRequest(method, params)
+    return response.result as T
+  }
+
+  private sendRequest(
+    method: string,
+    params: unknown[]
+  ): Promise<JSONRPCResponse> {
+    // ids of the requests on the socket are unique, whatever callers use
+    const id = this.nextReqId++
+    return this.onceConnected$
+      .pipe(
+        flatMap(_ => {
+          try {
+            this.ws.sendData(
+              JSON.stringify({ jsonrpc: "2.0", id, method, params })
+            )
+          } catch (err) {
+            return throwError(err)
+          }
+          // await response with corresponding id
+          return (
+            this.ws.incomingJSONData$ as Observable<JSONRPCResponse>
+          ).pipe(
+            filter(m => m.id === id),
+            take(1)
+          )
+        }),
+        timeoutWith(
+          REQUEST_TIMEOUT,
+          throwError(new Error(`request ${id} timed out`))
+        ),
+        map(response => {
+          if (response.error) {
+            throw serializeError(response.error)
+          }
+          return response
+        })
+      )
+      .toPromise()
+  }
+
+  private get onceConnected$(): Observable<void> {
+    return this.ws.connectionState$.pipe(
+      filter(cs => cs === ConnectionState.CONNECTED),
+      take(1),
+      map(() => void 0)
+    )
+  }
+}
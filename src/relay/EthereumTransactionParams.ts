@@ -1,6 +1,6 @@
 import BN from "bn.js"
 
-import { AddressString, IntNumber } from "../types";
+import { AccessList, AddressString, IntNumber } from "../types";
 
 export interface EthereumTransactionParams {
     fromAddress: AddressString
@@ -13,4 +13,12 @@ export interface EthereumTransactionParams {
     maxPriorityFeePerGas: BN | null // in wei
     gasLimit: BN | null
     chainId: IntNumber
-  }
\ No newline at end of file
+    type: IntNumber | null // EIP-2718 transaction type
+    accessList: AccessList | null // EIP-2930
+  }
+
+export interface EthereumCallParams {
+    toAddress: AddressString | null
+    weiValue: BN
+    data: Buffer
+  }
@@ -0,0 +1,82 @@
+// Copyright (c) 2018-2020 WalletLink.org <https://www.walletlink.org/>
+// Copyright (c) 2018-2020 Coinbase, Inc. <https://www.coinbase.com/>
+// Licensed under the Apache License, version 2.0
+
+import { errorCodes, EthereumRpcError } from "eth-rpc-errors"
+
+import { Web3Method } from "./Web3Method"
+
+export const DEFAULT_REQUEST_TIMEOUT = 10 * 60 * 1000 // 10 minutes
+// longest delay setTimeout supports, about 24.8 days
+export const MAX_REQUEST_TIMEOUT = 0x7fffffff
+// linking a wallet can take the user a while, so account requests only
+// expire if given a timeout of their own
+const METHODS_WITHOUT_DEFAULT_TIMEOUT = [Web3Method.requestEthereumAccounts]
+// EIP-1193 and EIP-1474 define no timeout code, so expired requests are
+// internal errors, told apart by their message and data
+export const REQUEST_TIMEOUT_ERROR_CODE = errorCodes.rpc.internal
+
+/**
+ * Time in milliseconds the wallet has to answer requests, by method. Methods
+ * not listed use the default one, except requestEthereumAccounts, which does
+ * not expire unless listed. 0 or Infinity means requests never expire.
+ */
+export type RequestTimeouts = Partial<Record<Web3Method | "default", number>>
+
+export interface RequestTimeoutErrorData {
+  method: Web3Method
+  // time in milliseconds since the epoch at which the request expired
+  expiresAt: number
+}
+
+/**
+ * Error requests are rejected with when the wallet has not answered them in
+ * time
+ */
+export class RequestTimeoutError extends EthereumRpcError<RequestTimeoutErrorData> {
+  constructor(method: Web3Method, expiresAt: number) {
+    super(
+      REQUEST_TIMEOUT_ERROR_CODE,
+      `Request ${method} expired before the wallet answered it`,
+      { method, expiresAt }
+    )
+    this.name = "RequestTimeoutError"
+  }
+}
+
+/**
+ * @param timeouts request timeouts option
+ * returns the timeouts, if each is a non-negative number
+ */
+export function ensureRequestTimeouts(timeouts: unknown): RequestTimeouts {
+  if (typeof timeouts !== "object" || timeouts === null) {
+    throw new Error(`Invalid request timeouts: ${String(timeouts)}`)
+  }
+  Object.entries(timeouts).forEach(([method, timeout]) => {
+    if (typeof timeout !== "number" || !(timeout >= 0)) {
+      throw new Error(
+        `Invalid request timeout of ${method}: ${String(timeout)}`
+      )
+    }
+  })
+  return timeouts as RequestTimeouts
+}
+
+/**
+ * returns the time in milliseconds the wallet has to answer a request, at
+ * most MAX_REQUEST_TIMEOUT, or null if the request does not expire
+ */
+export function requestTimeout(
+  timeouts: RequestTimeouts,
+  method: Web3Method
+): number | null {
+  const timeout =
+    timeouts[method] ??
+    (METHODS_WITHOUT_DEFAULT_TIMEOUT.includes(method)
+      ? 0
+      : timeouts.default ?? DEFAULT_REQUEST_TIMEOUT)
+  if (timeout === 0 || timeout === Infinity) {
+    return null
+  }
+  return Math.min(timeout, MAX_REQUEST_TIMEOUT)
+}
@@ -8,10 +8,53 @@ import { filter, map } from "rxjs/operators"
 
 import { ScopedLocalStorage } from "../lib/ScopedLocalStorage"
 import { randomBytesHex } from '../util';
+import * as aes256gcm from "./aes256gcm"
+import {
+  deriveSessionKeys,
+  generateHandshakeKeyPair,
+  HandshakeKeyPair,
+  LINK_PROTOCOL_HANDSHAKE,
+  LINK_PROTOCOL_LEGACY,
+  ratchetKey
+} from "./SessionHandshake"
 
 const STORAGE_KEY_SESSION_ID = "session:id"
 const STORAGE_KEY_SESSION_SECRET = "session:secret"
 const STORAGE_KEY_SESSION_LINKED = "session:linked"
+const STORAGE_KEY_SESSION_HANDSHAKE_KEY = "session:handshakeKey"
+const STORAGE_KEY_SESSION_KEYS = "session:keys"
+
+// the dapp moves to the next key epoch after publishing this many messages
+const KEY_ROTATION_MESSAGES = 100
+// or after this long
+const KEY_ROTATION_INTERVAL = 10 * 60 * 1000 // 10 minutes
+// how many epochs the wallet's messages can be ahead of the last one received
+const MAX_EPOCH_SKIP = 1000
+// wallet keys of epochs moved past, kept in memory for messages in flight
+const PREVIOUS_EPOCHS_KEPT = 2
+// how far behind the highest sequence number a wallet's message can be
+const SEQUENCE_WINDOW = 64
+
+// message id the wallet's public key is authenticated with
+const WALLET_PUBLIC_KEY_ID = "WalletPublicKey"
+
+// <key epoch>:<message id>:<cipher text>
+const MESSAGE_TAG_REGEX = /^(\d+):([^:]+):([0-9a-f]*)$/
+
+// keys of the current epochs only, so that earlier messages stay secret
+interface SessionKeyState {
+  dappEpoch: number
+  dappKey: string
+  dappEpochStartedAt: number
+  dappMessages: number
+  // highest sequence number used
+  dappSequence: number
+  walletEpoch: number
+  walletKey: string
+  // highest sequence number of the wallet's messages accepted
+  walletSequence: number
+  metadataKey: string
+}
 
 export class Session {
   private readonly _id: string
@@ -19,6 +62,15 @@ export class Session {
   private readonly _key: string
   private readonly _storage: ScopedLocalStorage
   private _linked: boolean
+  // deleted once the wallet has answered the handshake
+  private _handshakeKeyPair: HandshakeKeyPair | null = null
+  private readonly _previousWalletKeys = new Map<number, string>() // <epoch, key>
+  // sequence numbers of the wallet's messages accepted since the page loaded,
+  // all above the highest accepted before
+  private readonly _acceptedSequences = new Set<number>()
+  private _sequenceFloor: number | null = null
+  // messages of wallets that do not support the handshake
+  private readonly _receivedCipherTexts = new Set<string>()
 
   constructor(
     storage: ScopedLocalStorage,
@@ -43,7 +95,10 @@ export class Session {
     const secret = storage.getItem(STORAGE_KEY_SESSION_SECRET)
 
     if (id && secret) {
-      return new Session(storage, id, secret, linked === "1")
+      const session = new Session(storage, id, secret, linked === "1")
+      const handshakeKey = storage.getItem(STORAGE_KEY_SESSION_HANDSHAKE_KEY)
+      session._handshakeKeyPair = handshakeKey && JSON.parse(handshakeKey)
+      return session
     }
 
     return null
@@ -83,6 +138,268 @@ export class Session {
     return this._key
   }
 
+  /**
+   * Public key offered to wallets in the QR code, null until
+   * generateHandshakeKeyPair is called and once the wallet has answered
+   */
+  public get handshakePublicKey(): string | null {
+    return this._handshakeKeyPair?.publicKey ?? null
+  }
+
+  public get protocolVersion(): number {
+    return this.loadKeyState() ? LINK_PROTOCOL_HANDSHAKE : LINK_PROTOCOL_LEGACY
+  }
+
+  /**
+   * Key of the metadata the wallet publishes, the session secret until the
+   * wallet answers the handshake. Unlike message keys, it is not rotated:
+   * the wallet publishes metadata as the latest state of the session rather
+   * than as messages, and does not tag it with an epoch.
+   */
+  public get metadataKey(): string {
+    return this.loadKeyState()?.metadataKey ?? this._secret
+  }
+
+  /**
+   * Generates the key pair offered to wallets, unless the session already
+   * has one
+   * returns its public key
+   */
+  public async generateHandshakeKeyPair(): Promise<string> {
+    if (!this._handshakeKeyPair) {
+      const keyPair = await generateHandshakeKeyPair()
+      this._handshakeKeyPair = keyPair
+      this._storage.setItem(
+        STORAGE_KEY_SESSION_HANDSHAKE_KEY,
+        JSON.stringify(keyPair)
+      )
+    }
+    return this._handshakeKeyPair.publicKey
+  }
+
+  /**
+   * Verifies and decrypts the wallet's answer to the handshake. Wallets
+   * encrypt their public key with the session secret, authenticating the
+   * session id, so that only wallets that scanned the QR code can answer.
+   * @param cipherText WalletPublicKey session metadata
+   * Throws if the answer was not encrypted with the session secret.
+   */
+  public decryptWalletPublicKey(cipherText: string): Promise<string> {
+    return aes256gcm
+      .decrypt(
+        cipherText,
+        this._secret,
+        this.additionalData(WALLET_PUBLIC_KEY_ID)
+      )
+      .toPromise()
+  }
+
+  /**
+   * Derives the session keys from the wallet's answer to the handshake,
+   * after which messages are no longer encrypted with the session secret.
+   * The key pair is then deleted, so that the keys cannot be derived again
+   * from what is stored.
+   * @param walletPublicKey wallet's hex encoded P-256 public key, as returned
+   * by decryptWalletPublicKey
+   * Throws if the session has no key pair or the public key is invalid.
+   */
+  public async completeHandshake(walletPublicKey: string): Promise<void> {
+    if (!this._handshakeKeyPair) {
+      throw new Error("Session has no handshake key pair")
+    }
+    const keys = await deriveSessionKeys(
+      this._handshakeKeyPair.privateKey,
+      walletPublicKey,
+      this._id
+    )
+    this._handshakeKeyPair = null
+    this._storage.removeItem(STORAGE_KEY_SESSION_HANDSHAKE_KEY)
+    this.saveKeyState({
+      dappEpoch: 0,
+      dappKey: keys.dappKey,
+      dappEpochStartedAt: Date.now(),
+      dappMessages: 0,
+      dappSequence: 0,
+      walletEpoch: 0,
+      walletKey: keys.walletKey,
+      walletSequence: 0,
+      metadataKey: keys.metadataKey
+    })
+  }
+
+  /**
+   * Encrypts a message the dapp publishes. Once the wallet has answered the
+   * handshake, the message is numbered, timestamped and tagged with its id
+   * and the epoch of its key, which is rotated every KEY_ROTATION_MESSAGES
+   * messages or KEY_ROTATION_INTERVAL. The id and session id are
+   * authenticated as additional data.
+   * @param id message id
+   * @param message message to JSON encode
+   */
+  public async encryptMessage(id: string, message: object): Promise<string> {
+    const initial = this.loadKeyState()
+    if (!initial) {
+      return aes256gcm.encrypt(JSON.stringify(message), this._secret)
+    }
+    if (
+      initial.dappMessages >= KEY_ROTATION_MESSAGES ||
+      Date.now() - initial.dappEpochStartedAt >= KEY_ROTATION_INTERVAL
+    ) {
+      await this.rotateDappKey(initial)
+    }
+
+    // reserve the sequence number before encrypting, so that messages
+    // encrypted concurrently are numbered differently
+    const state = this.requireKeyState()
+    const sequence = state.dappSequence + 1
+    this.saveKeyState({
+      ...state,
+      dappMessages: state.dappMessages + 1,
+      dappSequence: sequence
+    })
+    const cipherText = await aes256gcm.encrypt(
+      JSON.stringify({ ...message, id, sequence, timestamp: Date.now() }),
+      state.dappKey,
+      this.additionalData(id)
+    )
+    return `${state.dappEpoch}:${id}:${cipherText}`
+  }
+
+  /**
+   * Decrypts a message the wallet published and parses it, moving to the
+   * epoch it is tagged with if it is a later one
+   * @param cipherText message
+   * Throws if the message cannot be decrypted with the key of its epoch and
+   * its tagged id, or is a replay: a sequence number already accepted or too
+   * old. The timestamp is not checked against the clock, which may be off,
+   * as answers can come as late as requests expire.
+   */
+  public async decryptMessage(cipherText: string): Promise<unknown> {
+    const state = this.loadKeyState()
+    if (!state) {
+      return this.decryptLegacyMessage(cipherText)
+    }
+    const match = MESSAGE_TAG_REGEX.exec(cipherText)
+    if (!match) {
+      throw new Error("Message is not tagged with a key epoch and id")
+    }
+    const epoch = Number(match[1])
+    const id = match[2]
+
+    const { key, skippedKeys } = await this.walletKey(state, epoch)
+    const message = JSON.parse(
+      await aes256gcm
+        .decrypt(match[3], key, this.additionalData(id))
+        .toPromise()
+    )
+    if (message?.id !== id) {
+      throw new Error("Message id does not match its tag")
+    }
+    const { sequence } = message
+    if (!Number.isInteger(sequence)) {
+      throw new Error("Message has no sequence number")
+    }
+
+    // only move on once the message has been authenticated and accepted
+    const current = this.requireKeyState()
+    this.acceptSequence(current, sequence)
+    const walletSequence = Math.max(current.walletSequence, sequence)
+    if (epoch > current.walletEpoch) {
+      skippedKeys.forEach((k, e) => this._previousWalletKeys.set(e, k))
+      this._previousWalletKeys.forEach((_, e) => {
+        if (e < epoch - PREVIOUS_EPOCHS_KEPT) {
+          this._previousWalletKeys.delete(e)
+        }
+      })
+      this.saveKeyState({
+        ...current,
+        walletEpoch: epoch,
+        walletKey: key,
+        walletSequence
+      })
+    } else {
+      this.saveKeyState({ ...current, walletSequence })
+    }
+    return message
+  }
+
+  /**
+   * Moves the messages the dapp publishes to the next key epoch, discarding
+   * the current key. The wallet follows when it receives the next message.
+   * Throws if the wallet has not answered the handshake.
+   */
+  public async rotateKeys(): Promise<void> {
+    const state = this.loadKeyState()
+    if (!state) {
+      throw new Error("Keys can only be rotated once the handshake is complete")
+    }
+    await this.rotateDappKey(state)
+  }
+
+  // legacy wallets do not number their messages, only exact copies are caught
+  private async decryptLegacyMessage(cipherText: string): Promise<unknown> {
+    if (this._receivedCipherTexts.has(cipherText)) {
+      throw new Error("Message has already been received")
+    }
+    const message = JSON.parse(
+      await aes256gcm.decrypt(cipherText, this._secret).toPromise()
+    )
+    this._receivedCipherTexts.add(cipherText)
+    return message
+  }
+
+  /**
+   * returns the wallet's key of an epoch, and the keys of the epochs
+   * ratcheted past to get to it
+   */
+  private async walletKey(
+    state: SessionKeyState,
+    epoch: number
+  ): Promise<{ key: string; skippedKeys: Map<number, string> }> {
+    const skippedKeys = new Map<number, string>()
+    if (epoch < state.walletEpoch) {
+      const previousKey = this._previousWalletKeys.get(epoch)
+      if (!previousKey) {
+        throw new Error(`Key of epoch ${epoch} has been discarded`)
+      }
+      return { key: previousKey, skippedKeys }
+    }
+    if (epoch - state.walletEpoch > MAX_EPOCH_SKIP) {
+      throw new Error(`Key epoch ${epoch} is too far ahead`)
+    }
+
+    let key = state.walletKey
+    for (let e = state.walletEpoch; e < epoch; e++) {
+      skippedKeys.set(e, key)
+      key = await ratchetKey(key)
+    }
+    return { key, skippedKeys }
+  }
+
+  private acceptSequence(state: SessionKeyState, sequence: number): void {
+    if (this._sequenceFloor === null) {
+      this._sequenceFloor = state.walletSequence
+    }
+    if (
+      sequence <= this._sequenceFloor ||
+      sequence <= state.walletSequence - SEQUENCE_WINDOW ||
+      this._acceptedSequences.has(sequence)
+    ) {
+      throw new Error(`Message ${sequence} has already been received`)
+    }
+    this._acceptedSequences.add(sequence)
+    const highest = Math.max(state.walletSequence, sequence)
+    this._acceptedSequences.forEach(accepted => {
+      if (accepted <= highest - SEQUENCE_WINDOW) {
+        this._acceptedSequences.delete(accepted)
+      }
+    })
+  }
+
+  private additionalData(messageId: string): string {
+    return `${this._id}:${messageId}`
+  }
+
   public get linked(): boolean {
     return this._linked
   }
@@ -99,6 +416,40 @@ export class Session {
     return this
   }
 
+  private async rotateDappKey(state: SessionKeyState): Promise<void> {
+    const nextKey = await ratchetKey(state.dappKey)
+    // unless rotated concurrently
+    const current = this.requireKeyState()
+    if (current.dappEpoch === state.dappEpoch) {
+      this.saveKeyState({
+        ...current,
+        dappEpoch: state.dappEpoch + 1,
+        dappKey: nextKey,
+        dappEpochStartedAt: Date.now(),
+        dappMessages: 0
+      })
+    }
+  }
+
+  // read from storage each time, so that tabs sharing the session stay in
+  // the same epochs
+  private loadKeyState(): SessionKeyState | null {
+    const state = this._storage.getItem(STORAGE_KEY_SESSION_KEYS)
+    return state ? JSON.parse(state) : null
+  }
+
+  private requireKeyState(): SessionKeyState {
+    const state = this.loadKeyState()
+    if (!state) {
+      throw new Error("Session keys have been cleared")
+    }
+    return state
+  }
+
+  private saveKeyState(state: SessionKeyState): void {
+    this._storage.setItem(STORAGE_KEY_SESSION_KEYS, JSON.stringify(state))
+  }
+
   private persistLinked(): void {
     this._storage.setItem(STORAGE_KEY_SESSION_LINKED, this._linked ? "1" : "0")
   }
@@ -0,0 +1,134 @@
+// Copyright (c) 2018-2020 WalletLink.org <https://www.walletlink.org/>
+// Copyright (c) 2018-2020 Coinbase, Inc. <https://www.coinbase.com/>
+// Licensed under the Apache License, version 2.0
+
+import { hexStringToUint8Array, uint8ArrayToHex } from "../util"
+
+// the session secret in the QR code is the AES key of all messages
+export const LINK_PROTOCOL_LEGACY = 1
+// the QR code also carries the public key of an ephemeral P-256 key pair, in
+// its publicKey parameter. Wallets that support the handshake answer with
+// their own in the WalletPublicKey session metadata, encrypted with the secret
+// so that it is authenticated, and both sides derive the
+// session keys from the ECDH shared secret with HKDF. Wallets that ignore the
+// parameter keep using the secret. Messages published before the wallet
+// answers are encrypted with the secret.
+// Each side ratchets the key of the messages it publishes forward with HKDF
+// from time to time, and tags messages with the epoch of their key.
+export const LINK_PROTOCOL_HANDSHAKE = 2
+
+const ECDH_PARAMS: EcKeyGenParams = { name: "ECDH", namedCurve: "P-256" }
+const HKDF_INFO = "WalletLink session keys"
+const RATCHET_INFO = "WalletLink ratchet"
+
+export interface HandshakeKeyPair {
+  // hex encoded PKCS #8
+  privateKey: string
+  // hex encoded uncompressed point
+  publicKey: string
+}
+
+/**
+ * AES-256-GCM keys, hex encoded
+ */
+export interface SessionKeys {
+  // encrypts messages published by the dapp, in the first epoch
+  dappKey: string
+  // encrypts messages published by the wallet, in the first epoch
+  walletKey: string
+  // encrypts session metadata published by the wallet, never rotated since
+  // metadata is not tagged with an epoch
+  metadataKey: string
+}
+
+export async function generateHandshakeKeyPair(): Promise<HandshakeKeyPair> {
+  const keyPair = await crypto.subtle.generateKey(ECDH_PARAMS, true, [
+    "deriveBits"
+  ])
+  const [privateKey, publicKey] = await Promise.all([
+    crypto.subtle.exportKey("pkcs8", keyPair.privateKey),
+    crypto.subtle.exportKey("raw", keyPair.publicKey)
+  ])
+  return {
+    privateKey: uint8ArrayToHex(new Uint8Array(privateKey)),
+    publicKey: uint8ArrayToHex(new Uint8Array(publicKey))
+  }
+}
+
+/**
+ * Derives the same keys as the other side, given its public key
+ * @param privateKey own private key, as returned by generateHandshakeKeyPair
+ * @param peerPublicKey other side's hex encoded uncompressed point
+ * @param sessionId session the keys are for, used as the HKDF salt
+ * Throws if the public key is not a valid P-256 point.
+ */
+export async function deriveSessionKeys(
+  privateKey: string,
+  peerPublicKey: string,
+  sessionId: string
+): Promise<SessionKeys> {
+  const [ownKey, peerKey] = await Promise.all([
+    crypto.subtle.importKey(
+      "pkcs8",
+      hexStringToUint8Array(privateKey),
+      ECDH_PARAMS,
+      false,
+      ["deriveBits"]
+    ),
+    crypto.subtle.importKey(
+      "raw",
+      hexStringToUint8Array(peerPublicKey),
+      ECDH_PARAMS,
+      false,
+      []
+    )
+  ])
+  const sharedSecret = await crypto.subtle.deriveBits(
+    { name: "ECDH", public: peerKey },
+    ownKey,
+    256
+  )
+
+  const keys = await hkdf(
+    new Uint8Array(sharedSecret),
+    new TextEncoder().encode(sessionId),
+    HKDF_INFO,
+    96
+  )
+  return {
+    dappKey: keys.slice(0, 64),
+    walletKey: keys.slice(64, 128),
+    metadataKey: keys.slice(128)
+  }
+}
+
+/**
+ * returns the key of the next epoch. The key of an epoch cannot be derived
+ * from the keys of later ones.
+ * @param key hex encoded key of the current epoch
+ */
+export function ratchetKey(key: string): Promise<string> {
+  return hkdf(hexStringToUint8Array(key), new Uint8Array(0), RATCHET_INFO, 32)
+}
+
+async function hkdf(
+  keyMaterial: Uint8Array,
+  salt: Uint8Array,
+  info: string,
+  length: number
+): Promise<string> {
+  const key = await crypto.subtle.importKey("raw", keyMaterial, "HKDF", false, [
+    "deriveBits"
+  ])
+  const bits = await crypto.subtle.deriveBits(
+    {
+      name: "HKDF",
+      hash: "SHA-256",
+      salt,
+      info: new TextEncoder().encode(info)
+    },
+    key,
+    length * 8
+  )
+  return uint8ArrayToHex(new Uint8Array(bits))
+}
@@ -4,12 +4,11 @@
 
 import bind from "bind-decorator"
 import { ethErrors } from "eth-rpc-errors"
-import { Observable, of, Subscription, zip } from "rxjs"
+import { BehaviorSubject, from, Observable, of, Subscription, zip } from "rxjs"
 import {
   catchError,
   distinctUntilChanged,
   filter,
-  map,
   mergeMap,
   skip,
   tap,
@@ -20,6 +19,7 @@ import { WalletLinkAnalytics } from "../connection/WalletLinkAnalytics"
 import { WalletLinkConnection } from "../connection/WalletLinkConnection"
 import { EVENTS, WalletLinkAnalyticsAbstract } from "../init"
 import { ScopedLocalStorage } from "../lib/ScopedLocalStorage"
+import { TransactionPreview } from "../provider/TransactionPreview"
 import { WalletLinkUI, WalletLinkUIOptions } from "../provider/WalletLinkUI"
 import { AddressString, IntNumber, RegExpString } from "../types"
 import {
@@ -28,9 +28,22 @@ import {
   randomBytesHex
 } from "../util"
 import * as aes256gcm from "./aes256gcm"
-import { EthereumTransactionParams } from "./EthereumTransactionParams"
+import {
+  EthereumCallParams,
+  EthereumTransactionParams
+} from "./EthereumTransactionParams"
 import { RelayMessage } from "./RelayMessage"
+import {
+  ensureRequestTimeouts,
+  requestTimeout,
+  RequestTimeoutError,
+  RequestTimeouts
+} from "./RequestExpiry"
 import { Session } from "./Session"
+import {
+  LINK_PROTOCOL_HANDSHAKE,
+  LINK_PROTOCOL_LEGACY
+} from "./SessionHandshake"
 import {
   APP_VERSION_KEY,
   CancelablePromise,
@@ -42,29 +55,43 @@ import { WalletLinkRelayEventManager } from "./WalletLinkRelayEventManager"
 import { Web3Method } from "./Web3Method"
 import {
   AddEthereumChainRequest,
+  DecryptEthereumMessageRequest,
   EthereumAddressFromSignedMessageRequest,
   GenericRequest,
+  GetCallsStatusRequest,
+  GetCapabilitiesRequest,
+  GetEncryptionPublicKeyRequest,
   ScanQRCodeRequest,
+  SendCallsRequest,
+  ShowCallsStatusRequest,
   SignEthereumMessageRequest,
   SignEthereumTransactionRequest,
   SubmitEthereumTransactionRequest,
   SwitchEthereumChainRequest,
+  WatchAssetRequest,
   Web3Request
 } from "./Web3Request"
 import { Web3RequestCanceledMessage } from "./Web3RequestCanceledMessage"
 import { Web3RequestMessage } from "./Web3RequestMessage"
 import {
   AddEthereumChainResponse,
+  DecryptEthereumMessageResponse,
   ErrorResponse,
   EthereumAddressFromSignedMessageResponse,
   GenericResponse,
+  GetCallsStatusResponse,
+  GetCapabilitiesResponse,
+  GetEncryptionPublicKeyResponse,
   isRequestEthereumAccountsResponse,
   RequestEthereumAccountsResponse,
   ScanQRCodeResponse,
+  SendCallsResponse,
+  ShowCallsStatusResponse,
   SignEthereumMessageResponse,
   SignEthereumTransactionResponse,
   SubmitEthereumTransactionResponse,
   SwitchEthereumChainResponse,
+  WatchAssetResponse,
   Web3Response
 } from "./Web3Response"
 import {
@@ -72,6 +99,16 @@ import {
   Web3ResponseMessage
 } from "./Web3ResponseMessage"
 
+// methods the extension's UI can answer, see sendRequestStandalone
+const STANDALONE_METHODS = [
+  Web3Method.signEthereumMessage,
+  Web3Method.signEthereumTransaction,
+  Web3Method.submitEthereumTransaction,
+  Web3Method.ethereumAddressFromSignedMessage,
+  Web3Method.getEncryptionPublicKey,
+  Web3Method.decryptEthereumMessage
+]
+
 export interface WalletLinkRelayOptions {
   walletLinkUrl: string
   version: string
@@ -82,6 +119,7 @@ export interface WalletLinkRelayOptions {
     options: Readonly<WalletLinkUIOptions>
   ) => WalletLinkUI
   walletLinkAnalytics?: WalletLinkAnalyticsAbstract
+  requestTimeouts?: RequestTimeouts
 }
 
 export class WalletLinkRelay extends WalletLinkRelayAbstract {
@@ -91,9 +129,17 @@ export class WalletLinkRelay extends WalletLinkRelayAbstract {
   protected readonly storage: ScopedLocalStorage
   private readonly _session: Session
   private readonly relayEventManager: WalletLinkRelayEventManager
+  private readonly requestTimeouts: RequestTimeouts
   protected readonly walletLinkAnalytics: WalletLinkAnalyticsAbstract | null
   private readonly connection: WalletLinkConnection
-  private accountsCallback: ((account: [string]) => void) | null = null
+  // public key offered to wallets in the QR code, once generated
+  private readonly handshakePublicKey$: BehaviorSubject<string | null>
+  // settles once the wallet's answer to the handshake, if any, is processed
+  private handshake: Promise<void> = Promise.resolve()
+  private accountsCallback: ((accounts: string[]) => void) | null = null
+  // accounts of the wallet, and the one selected in it, from session metadata
+  private walletAddresses: string[] = []
+  private walletSelectedAddress: string | null = null
   private chainCallback:
     | ((chainId: string, jsonRpcUrl: string) => void)
     | null = null
@@ -114,6 +160,7 @@ export class WalletLinkRelay extends WalletLinkRelayAbstract {
       Session.load(options.storage) || new Session(options.storage).save()
 
     this.relayEventManager = options.relayEventManager
+    this.requestTimeouts = ensureRequestTimeouts(options.requestTimeouts ?? {})
     this.walletLinkAnalytics = options.walletLinkAnalytics
       ? options.walletLinkAnalytics
       : new WalletLinkAnalytics()
@@ -125,6 +172,20 @@ export class WalletLinkRelay extends WalletLinkRelayAbstract {
       this.walletLinkAnalytics
     )
 
+    this.handshakePublicKey$ = new BehaviorSubject(
+      this._session.handshakePublicKey
+    )
+    if (this._session.protocolVersion === LINK_PROTOCOL_LEGACY) {
+      this._session
+        .generateHandshakeKeyPair()
+        .then(publicKey => this.handshakePublicKey$.next(publicKey))
+        .catch(() => {
+          this.walletLinkAnalytics?.sendEvent(EVENTS.GENERAL_ERROR, {
+            message: "Had error generating handshake key pair"
+          })
+        })
+    }
+
     this.subscriptions.add(
       this.connection.incomingEvent$
         .pipe(filter(m => m.event === "Web3Response"))
@@ -171,6 +232,22 @@ export class WalletLinkRelay extends WalletLinkRelayAbstract {
         .subscribe()
     )
 
+    // wallets that support the handshake answer with their public key. This
+    // subscription comes first, so that metadata of the same config is
+    // decrypted with the derived keys.
+    this.subscriptions.add(
+      this.connection.sessionConfig$
+        .pipe(
+          filter(c => c.metadata && c.metadata.WalletPublicKey !== undefined)
+        )
+        .subscribe(c => {
+          // one answer at a time, so that the keys are derived once
+          this.handshake = this.handshake.then(() =>
+            this.completeHandshake(c.metadata.WalletPublicKey!)
+          )
+        })
+    )
+
     // if session is marked destroyed, reset and reload
     this.subscriptions.add(
       this.connection.sessionConfig$
@@ -191,11 +268,7 @@ export class WalletLinkRelay extends WalletLinkRelayAbstract {
         .pipe(
           filter(c => c.metadata && c.metadata.WalletUsername !== undefined)
         )
-        .pipe(
-          mergeMap(c =>
-            aes256gcm.decrypt(c.metadata.WalletUsername!, this._session.secret)
-          )
-        )
+        .pipe(mergeMap(c => this.decrypt(c.metadata.WalletUsername!)))
         .subscribe({
           next: walletUsername => {
             this.storage.setItem(WALLET_USER_NAME_KEY, walletUsername)
@@ -212,11 +285,7 @@ export class WalletLinkRelay extends WalletLinkRelayAbstract {
     this.subscriptions.add(
       this.connection.sessionConfig$
         .pipe(filter(c => c.metadata && c.metadata.AppVersion !== undefined))
-        .pipe(
-          mergeMap(c =>
-            aes256gcm.decrypt(c.metadata.AppVersion!, this._session.secret)
-          )
-        )
+        .pipe(mergeMap(c => this.decrypt(c.metadata.AppVersion!)))
         .subscribe({
           next: appVersion => {
             this.storage.setItem(APP_VERSION_KEY, appVersion)
@@ -243,8 +312,8 @@ export class WalletLinkRelay extends WalletLinkRelayAbstract {
         .pipe(
           mergeMap(c =>
             zip(
-              aes256gcm.decrypt(c.metadata.ChainId!, this._session.secret),
-              aes256gcm.decrypt(c.metadata.JsonRpcUrl!, this._session.secret)
+              this.decrypt(c.metadata.ChainId!),
+              this.decrypt(c.metadata.JsonRpcUrl!)
             )
           )
         )
@@ -267,17 +336,34 @@ export class WalletLinkRelay extends WalletLinkRelayAbstract {
     this.subscriptions.add(
       this.connection.sessionConfig$
         .pipe(
-          filter(c => c.metadata && c.metadata.EthereumAddress !== undefined)
+          filter(
+            c =>
+              c.metadata &&
+              (c.metadata.EthereumAddress !== undefined ||
+                c.metadata.EthereumAddresses !== undefined)
+          )
         )
         .pipe(
           mergeMap(c =>
-            aes256gcm.decrypt(c.metadata.EthereumAddress!, this._session.secret)
+            zip(
+              this.decryptMetadata(c.metadata.EthereumAddress),
+              this.decryptMetadata(c.metadata.EthereumAddresses)
+            )
           )
         )
         .subscribe({
-          next: selectedAddress => {
+          next: ([selectedAddress, addresses]) => {
+            // wallets that predate multiple accounts only set EthereumAddress
+            if (addresses !== null) {
+              this.walletAddresses = addresses.split(" ").filter(a => a !== "")
+            }
+            if (selectedAddress !== null) {
+              this.walletSelectedAddress = selectedAddress
+            }
+            const accounts = this.orderedWalletAddresses()
+
             if (this.accountsCallback) {
-              this.accountsCallback([selectedAddress])
+              this.accountsCallback(accounts)
             }
 
             if (WalletLinkRelay.accountRequestCallbackIds.size > 0) {
@@ -289,9 +375,9 @@ export class WalletLinkRelay extends WalletLinkRelayAbstract {
               ).forEach(id => {
                 const message = Web3ResponseMessage({
                   id,
-                  response: RequestEthereumAccountsResponse([
-                    selectedAddress as AddressString
-                  ])
+                  response: RequestEthereumAccountsResponse(
+                    accounts as AddressString[]
+                  )
                 })
                 this.invokeCallback({ ...message, id })
               })
@@ -312,7 +398,8 @@ export class WalletLinkRelay extends WalletLinkRelayAbstract {
       version: options.version,
       darkMode: options.darkMode,
       session: this._session,
-      connected$: this.connection.connected$
+      connected$: this.connection.connected$,
+      handshakePublicKey$: this.handshakePublicKey$.asObservable()
     })
 
     this.connection.connect()
@@ -393,6 +480,14 @@ export class WalletLinkRelay extends WalletLinkRelayAbstract {
     return this._session
   }
 
+  /**
+   * Moves the messages published to the wallet to a new key, once the
+   * wallet has answered the handshake
+   */
+  public rotateSessionKeys(): Promise<void> {
+    return this.handshake.then(() => this._session.rotateKeys())
+  }
+
   public setStorageItem(key: string, value: string): void {
     this.storage.setItem(key, value)
   }
@@ -435,6 +530,34 @@ export class WalletLinkRelay extends WalletLinkRelayAbstract {
     })
   }
 
+  public getEncryptionPublicKey(
+    address: AddressString
+  ): CancelablePromise<GetEncryptionPublicKeyResponse> {
+    return this.sendRequest<
+      GetEncryptionPublicKeyRequest,
+      GetEncryptionPublicKeyResponse
+    >({
+      method: Web3Method.getEncryptionPublicKey,
+      params: { address }
+    })
+  }
+
+  public decryptEthereumMessage(
+    message: Buffer,
+    address: AddressString
+  ): CancelablePromise<DecryptEthereumMessageResponse> {
+    return this.sendRequest<
+      DecryptEthereumMessageRequest,
+      DecryptEthereumMessageResponse
+    >({
+      method: Web3Method.decryptEthereumMessage,
+      params: {
+        message: hexStringFromBuffer(message, true),
+        address
+      }
+    })
+  }
+
   public signEthereumTransaction(
     params: EthereumTransactionParams
   ): CancelablePromise<SignEthereumTransactionResponse> {
@@ -452,14 +575,16 @@ export class WalletLinkRelay extends WalletLinkRelayAbstract {
         gasPriceInWei: params.gasPriceInWei
           ? bigIntStringFromBN(params.gasPriceInWei)
           : null,
-        maxFeePerGas: params.gasPriceInWei
-          ? bigIntStringFromBN(params.gasPriceInWei)
+        maxFeePerGas: params.maxFeePerGas
+          ? bigIntStringFromBN(params.maxFeePerGas)
           : null,
-        maxPriorityFeePerGas: params.gasPriceInWei
-          ? bigIntStringFromBN(params.gasPriceInWei)
+        maxPriorityFeePerGas: params.maxPriorityFeePerGas
+          ? bigIntStringFromBN(params.maxPriorityFeePerGas)
           : null,
         gasLimit: params.gasLimit ? bigIntStringFromBN(params.gasLimit) : null,
         chainId: params.chainId,
+        type: params.type,
+        accessList: params.accessList,
         shouldSubmit: false
       }
     })
@@ -490,6 +615,8 @@ export class WalletLinkRelay extends WalletLinkRelayAbstract {
           : null,
         gasLimit: params.gasLimit ? bigIntStringFromBN(params.gasLimit) : null,
         chainId: params.chainId,
+        type: params.type,
+        accessList: params.accessList,
         shouldSubmit: true
       }
     })
@@ -511,6 +638,56 @@ export class WalletLinkRelay extends WalletLinkRelayAbstract {
     })
   }
 
+  public showTransactionPreview(preview: TransactionPreview): () => void {
+    return this.ui.showTransactionPreview(preview)
+  }
+
+  public sendCalls(
+    fromAddress: AddressString,
+    calls: EthereumCallParams[],
+    chainId: IntNumber,
+    atomicRequired: boolean
+  ): CancelablePromise<SendCallsResponse> {
+    return this.sendRequest<SendCallsRequest, SendCallsResponse>({
+      method: Web3Method.sendCalls,
+      params: {
+        fromAddress,
+        calls: calls.map(call => ({
+          toAddress: call.toAddress,
+          weiValue: bigIntStringFromBN(call.weiValue),
+          data: hexStringFromBuffer(call.data, true)
+        })),
+        chainId,
+        atomicRequired
+      }
+    })
+  }
+
+  public getCallsStatus(id: string): CancelablePromise<GetCallsStatusResponse> {
+    return this.sendRequest<GetCallsStatusRequest, GetCallsStatusResponse>({
+      method: Web3Method.getCallsStatus,
+      params: { id }
+    })
+  }
+
+  public showCallsStatus(
+    id: string
+  ): CancelablePromise<ShowCallsStatusResponse> {
+    return this.sendRequest<ShowCallsStatusRequest, ShowCallsStatusResponse>({
+      method: Web3Method.showCallsStatus,
+      params: { id }
+    })
+  }
+
+  public getCapabilities(
+    address: AddressString
+  ): CancelablePromise<GetCapabilitiesResponse> {
+    return this.sendRequest<GetCapabilitiesRequest, GetCapabilitiesResponse>({
+      method: Web3Method.getCapabilities,
+      params: { address }
+    })
+  }
+
   public scanQRCode(
     regExp: RegExpString
   ): CancelablePromise<ScanQRCodeResponse> {
@@ -542,6 +719,20 @@ export class WalletLinkRelay extends WalletLinkRelayAbstract {
   public sendRequest<T extends Web3Request, U extends Web3Response>(
     request: T
   ): CancelablePromise<U> {
+    if (
+      this.ui.isStandalone() &&
+      !STANDALONE_METHODS.includes(request.method)
+    ) {
+      return {
+        promise: Promise.reject(
+          ethErrors.provider.unsupportedMethod(
+            `${request.method} is not supported by the extension`
+          )
+        ),
+        cancel: () => {}
+      }
+    }
+
     let hideSnackbarItem: (() => void) | null = null
     const id = randomBytesHex(8)
 
@@ -565,19 +756,27 @@ export class WalletLinkRelay extends WalletLinkRelayAbstract {
         })
       }
 
-      this.relayEventManager.callbacks.set(id, response => {
-        hideSnackbarItem?.()
-        if (response.errorMessage) {
-          return reject(new Error(response.errorMessage))
-        }
+      const expiresAt = this.setExpiringCallback(
+        id,
+        request.method,
+        response => {
+          hideSnackbarItem?.()
+          if (response.errorMessage) {
+            return reject(new Error(response.errorMessage))
+          }
 
-        resolve(response as U)
-      })
+          resolve(response as U)
+        },
+        err => {
+          hideSnackbarItem?.()
+          reject(err)
+        }
+      )
 
       if (this.ui.isStandalone()) {
         this.sendRequestStandalone(id, request)
       } else {
-        this.publishWeb3RequestEvent(id, request)
+        this.publishWeb3RequestEvent(id, request, expiresAt)
       }
     })
 
@@ -588,7 +787,7 @@ export class WalletLinkRelay extends WalletLinkRelayAbstract {
     this.ui.setConnectDisabled(disabled)
   }
 
-  public setAccountsCallback(accountsCallback: (accounts: [string]) => void) {
+  public setAccountsCallback(accountsCallback: (accounts: string[]) => void) {
     this.accountsCallback = accountsCallback
   }
 
@@ -598,8 +797,12 @@ export class WalletLinkRelay extends WalletLinkRelayAbstract {
     this.chainCallback = chainCallback
   }
 
-  private publishWeb3RequestEvent(id: string, request: Web3Request): void {
-    const message = Web3RequestMessage({ id, request })
+  private publishWeb3RequestEvent(
+    id: string,
+    request: Web3Request,
+    expiresAt?: number
+  ): void {
+    const message = Web3RequestMessage({ id, request, expiresAt })
     const storedSession = Session.load(this.storage)
     this.walletLinkAnalytics?.sendEvent(EVENTS.WEB3_REQUEST, {
       eventId: message.id,
@@ -650,20 +853,22 @@ export class WalletLinkRelay extends WalletLinkRelayAbstract {
 
   protected publishEvent(
     event: string,
-    message: RelayMessage,
+    message: RelayMessage & { id: string },
     callWebhook: boolean
   ): Observable<string> {
-    const secret = this.session.secret
     return new Observable<string>(subscriber => {
-      void aes256gcm
-        .encrypt(
-          JSON.stringify({ ...message, origin: location.origin }),
-          secret
+      void this.handshake
+        .then(() =>
+          this._session.encryptMessage(message.id, {
+            ...message,
+            origin: location.origin
+          })
         )
         .then((encrypted: string) => {
           subscriber.next(encrypted)
           subscriber.complete()
         })
+        .catch(err => subscriber.error(err))
     }).pipe(
       mergeMap((encrypted: string) => {
         return this.connection.publishEvent(event, encrypted, callWebhook)
@@ -675,9 +880,8 @@ export class WalletLinkRelay extends WalletLinkRelayAbstract {
   private handleIncomingEvent(event: ServerMessageEvent): void {
     try {
       this.subscriptions.add(
-        aes256gcm
-          .decrypt(event.data, this.session.secret)
-          .pipe(map(c => JSON.parse(c)))
+        from(this.handshake)
+          .pipe(mergeMap(() => this._session.decryptMessage(event.data)))
           .subscribe({
             next: json => {
               const message = isWeb3ResponseMessage(json) ? json : null
@@ -687,11 +891,16 @@ export class WalletLinkRelay extends WalletLinkRelayAbstract {
 
               this.handleWeb3ResponseMessage(message)
             },
-            error: () => {
-              this.walletLinkAnalytics?.sendEvent(EVENTS.GENERAL_ERROR, {
-                message: "Had error decrypting",
-                value: "incomingEvent"
-              })
+            error: err => {
+              this.walletLinkAnalytics?.sendEvent(
+                EVENTS.WEB3_RESPONSE_REJECTED,
+                {
+                  eventId: event.eventId,
+                  message: (err as Error).message,
+                  sessionIdHash: this.getSessionIdHash(),
+                  origin: location.origin
+                }
+              )
             }
           })
       )
@@ -719,6 +928,46 @@ export class WalletLinkRelay extends WalletLinkRelayAbstract {
     this.invokeCallback(message)
   }
 
+  /**
+   * Sets the callback of a request, and cancels the request if the wallet
+   * has not answered it by the time it expires
+   * @param onExpire called with the error to reject the request with
+   * returns the time in milliseconds since the epoch at which it expires, or
+   * undefined if it does not
+   */
+  private setExpiringCallback(
+    id: string,
+    method: Web3Method,
+    callback: (response: Web3Response) => void,
+    onExpire: (err: RequestTimeoutError) => void
+  ): number | undefined {
+    const delay = requestTimeout(this.requestTimeouts, method)
+    this.relayEventManager.removeExpiredCallbacks()
+    if (delay === null) {
+      this.relayEventManager.setExpiringCallback(id, callback)
+      return undefined
+    }
+
+    const expiresAt = Date.now() + delay
+
+    const expire = setTimeout(() => {
+      this.relayEventManager.callbacks.delete(id)
+      WalletLinkRelay.accountRequestCallbackIds.delete(id)
+      this.publishWeb3RequestCanceledEvent(id)
+      onExpire(new RequestTimeoutError(method, expiresAt))
+    }, delay)
+
+    this.relayEventManager.setExpiringCallback(
+      id,
+      response => {
+        clearTimeout(expire)
+        callback(response)
+      },
+      expiresAt
+    )
+    return expiresAt
+  }
+
   private invokeCallback(message: Web3ResponseMessage) {
     const callback = this.relayEventManager.callbacks.get(message.id)
     if (callback) {
@@ -752,15 +1001,24 @@ export class WalletLinkRelay extends WalletLinkRelayAbstract {
 
     const promise = new Promise<RequestEthereumAccountsResponse>(
       (resolve, reject) => {
-        this.relayEventManager.callbacks.set(id, response => {
-          this.ui.hideRequestEthereumAccounts()
-          hideSnackbarItem?.()
+        const expiresAt = this.setExpiringCallback(
+          id,
+          request.method,
+          response => {
+            this.ui.hideRequestEthereumAccounts()
+            hideSnackbarItem?.()
 
-          if (response.errorMessage) {
-            return reject(new Error(response.errorMessage))
+            if (response.errorMessage) {
+              return reject(new Error(response.errorMessage))
+            }
+            resolve(response as RequestEthereumAccountsResponse)
+          },
+          err => {
+            this.ui.hideRequestEthereumAccounts()
+            hideSnackbarItem?.()
+            reject(err)
           }
-          resolve(response as RequestEthereumAccountsResponse)
-        })
+        )
 
         const userAgent = window?.navigator?.userAgent || null
         if (
@@ -774,7 +1032,7 @@ export class WalletLinkRelay extends WalletLinkRelayAbstract {
         }
 
         if (this.ui.inlineAccountsResponse()) {
-          const onAccounts = (accounts: [AddressString]) => {
+          const onAccounts = (accounts: AddressString[]) => {
             this.handleWeb3ResponseMessage(
               Web3ResponseMessage({
                 id,
@@ -796,7 +1054,7 @@ export class WalletLinkRelay extends WalletLinkRelayAbstract {
         WalletLinkRelay.accountRequestCallbackIds.add(id)
 
         if (!this.ui.inlineAccountsResponse() && !this.ui.isStandalone()) {
-          this.publishWeb3RequestEvent(id, request)
+          this.publishWeb3RequestEvent(id, request, expiresAt)
         }
       }
     )
@@ -851,14 +1109,22 @@ export class WalletLinkRelay extends WalletLinkRelayAbstract {
     }
 
     const promise = new Promise<AddEthereumChainResponse>((resolve, reject) => {
-      this.relayEventManager.callbacks.set(id, response => {
-        hideSnackbarItem?.()
+      const expiresAt = this.setExpiringCallback(
+        id,
+        request.method,
+        response => {
+          hideSnackbarItem?.()
 
-        if (response.errorMessage) {
-          return reject(new Error(response.errorMessage))
+          if (response.errorMessage) {
+            return reject(new Error(response.errorMessage))
+          }
+          resolve(response as AddEthereumChainResponse)
+        },
+        err => {
+          hideSnackbarItem?.()
+          reject(err)
         }
-        resolve(response as AddEthereumChainResponse)
-      })
+      )
 
       const _cancel = () => {
         this.handleWeb3ResponseMessage(
@@ -897,7 +1163,7 @@ export class WalletLinkRelay extends WalletLinkRelayAbstract {
       }
 
       if (!this.ui.inlineAddEthereumChain(chainId) && !this.ui.isStandalone()) {
-        this.publishWeb3RequestEvent(id, request)
+        this.publishWeb3RequestEvent(id, request, expiresAt)
       }
     })
 
@@ -938,22 +1204,33 @@ export class WalletLinkRelay extends WalletLinkRelayAbstract {
 
     const promise = new Promise<SwitchEthereumChainResponse>(
       (resolve, reject) => {
-        this.relayEventManager.callbacks.set(id, response => {
-          hideSnackbarItem?.()
+        const expiresAt = this.setExpiringCallback(
+          id,
+          request.method,
+          response => {
+            hideSnackbarItem?.()
+
+            if (
+              response.errorMessage &&
+              (response as ErrorResponse).errorCode
+            ) {
+              return reject(
+                ethErrors.provider.custom({
+                  code: (response as ErrorResponse).errorCode!,
+                  message: `Unrecognized chain ID. Try adding the chain using addEthereumChain first.`
+                })
+              )
+            } else if (response.errorMessage) {
+              return reject(new Error(response.errorMessage))
+            }
 
-          if (response.errorMessage && (response as ErrorResponse).errorCode) {
-            return reject(
-              ethErrors.provider.custom({
-                code: (response as ErrorResponse).errorCode!,
-                message: `Unrecognized chain ID. Try adding the chain using addEthereumChain first.`
-              })
-            )
-          } else if (response.errorMessage) {
-            return reject(new Error(response.errorMessage))
+            resolve(response as SwitchEthereumChainResponse)
+          },
+          err => {
+            hideSnackbarItem?.()
+            reject(err)
           }
-
-          resolve(response as SwitchEthereumChainResponse)
-        })
+        )
 
         const _cancel = (errorCode?: number) => {
           if (errorCode) {
@@ -999,7 +1276,7 @@ export class WalletLinkRelay extends WalletLinkRelayAbstract {
         })
 
         if (!this.ui.inlineSwitchEthereumChain() && !this.ui.isStandalone()) {
-          this.publishWeb3RequestEvent(id, request)
+          this.publishWeb3RequestEvent(id, request, expiresAt)
         }
       }
     )
@@ -1007,6 +1284,163 @@ export class WalletLinkRelay extends WalletLinkRelayAbstract {
     return { promise, cancel }
   }
 
+  watchAsset(
+    type: string,
+    address: AddressString,
+    symbol?: string,
+    decimals?: number,
+    image?: string,
+    tokenId?: string
+  ): CancelablePromise<WatchAssetResponse> {
+    const request: WatchAssetRequest = {
+      method: Web3Method.watchAsset,
+      params: {
+        type,
+        options: {
+          address,
+          symbol,
+          decimals,
+          image,
+          tokenId
+        }
+      }
+    }
+
+    let hideSnackbarItem: (() => void) | null = null
+    const id = randomBytesHex(8)
+
+    const cancel = () => {
+      this.publishWeb3RequestCanceledEvent(id)
+      this.handleWeb3ResponseMessage(
+        Web3ResponseMessage({
+          id,
+          response: ErrorResponse(request.method, "User rejected request")
+        })
+      )
+      hideSnackbarItem?.()
+    }
+
+    if (!this.ui.inlineWatchAsset()) {
+      hideSnackbarItem = this.ui.showConnecting({
+        isUnlinkedErrorState: this.isUnlinkedErrorState,
+        onCancel: cancel,
+        onResetConnection: this.resetAndReload // eslint-disable-line @typescript-eslint/unbound-method
+      })
+    }
+
+    const promise = new Promise<WatchAssetResponse>((resolve, reject) => {
+      const expiresAt = this.setExpiringCallback(
+        id,
+        request.method,
+        response => {
+          hideSnackbarItem?.()
+
+          if (response.errorMessage) {
+            return reject(new Error(response.errorMessage))
+          }
+          resolve(response as WatchAssetResponse)
+        },
+        err => {
+          hideSnackbarItem?.()
+          reject(err)
+        }
+      )
+
+      const _cancel = () => {
+        this.handleWeb3ResponseMessage(
+          Web3ResponseMessage({
+            id,
+            response: WatchAssetResponse(false)
+          })
+        )
+      }
+
+      const approve = () => {
+        this.handleWeb3ResponseMessage(
+          Web3ResponseMessage({
+            id,
+            response: WatchAssetResponse(true)
+          })
+        )
+      }
+
+      if (this.ui.inlineWatchAsset()) {
+        this.ui.watchAsset({
+          onApprove: approve,
+          onCancel: _cancel,
+          type,
+          ...request.params.options
+        })
+      }
+
+      if (!this.ui.inlineWatchAsset() && !this.ui.isStandalone()) {
+        this.publishWeb3RequestEvent(id, request, expiresAt)
+      }
+    })
+
+    return { promise, cancel }
+  }
+
+  private decryptMetadata(
+    value: string | undefined
+  ): Observable<string | null> {
+    return value !== undefined ? this.decrypt(value) : of(null)
+  }
+
+  /**
+   * Decrypts metadata published by the wallet, once its answer to the
+   * handshake, if any, is processed
+   */
+  private decrypt(cipherText: string): Observable<string> {
+    return from(this.handshake).pipe(
+      mergeMap(() => aes256gcm.decrypt(cipherText, this._session.metadataKey))
+    )
+  }
+
+  /**
+   * Derives the session keys from the wallet's answer to the handshake, once
+   * it is verified to come from a wallet that scanned the QR code
+   * @param cipherText WalletPublicKey session metadata
+   */
+  private async completeHandshake(cipherText: string): Promise<void> {
+    // keep the keys agreed on with the wallet that answered first
+    if (this._session.protocolVersion === LINK_PROTOCOL_HANDSHAKE) {
+      return
+    }
+    let walletPublicKey: string
+    try {
+      walletPublicKey = await this._session.decryptWalletPublicKey(cipherText)
+    } catch {
+      this.walletLinkAnalytics?.sendEvent(EVENTS.GENERAL_ERROR, {
+        message: "Rejected unauthenticated wallet public key"
+      })
+      return
+    }
+    try {
+      await this._session.completeHandshake(walletPublicKey)
+    } catch {
+      this.walletLinkAnalytics?.sendEvent(EVENTS.GENERAL_ERROR, {
+        message: "Had error completing handshake"
+      })
+    }
+  }
+
+  /**
+   * returns the wallet's accounts, with the selected one first
+   */
+  private orderedWalletAddresses(): string[] {
+    const selected = this.walletSelectedAddress
+    if (selected === null) {
+      return [...this.walletAddresses]
+    }
+    return [
+      selected,
+      ...this.walletAddresses.filter(
+        address => address.toLowerCase() !== selected.toLowerCase()
+      )
+    ]
+  }
+
   private getSessionIdHash(): string {
     return Session.hash(this._session.id)
   }
@@ -1027,6 +1461,8 @@ export class WalletLinkRelay extends WalletLinkRelayAbstract {
         | SignEthereumTransactionResponse
         | SubmitEthereumTransactionResponse
         | EthereumAddressFromSignedMessageResponse
+        | GetEncryptionPublicKeyResponse
+        | DecryptEthereumMessageResponse
     ) => {
       this.handleWeb3ResponseMessage(
         Web3ResponseMessage({
@@ -1064,6 +1500,20 @@ export class WalletLinkRelay extends WalletLinkRelayAbstract {
           onSuccess
         })
         break
+      case Web3Method.getEncryptionPublicKey:
+        this.ui.getEncryptionPublicKey({
+          request,
+          onSuccess,
+          onCancel: _cancel
+        })
+        break
+      case Web3Method.decryptEthereumMessage:
+        this.ui.decryptEthereumMessage({
+          request,
+          onSuccess,
+          onCancel: _cancel
+        })
+        break
       default:
         _cancel()
         break
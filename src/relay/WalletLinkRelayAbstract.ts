@@ -1,25 +1,38 @@
 import { ethErrors, serializeError } from "eth-rpc-errors"
 
 import { JSONRPCRequest, JSONRPCResponse } from "../provider/JSONRPC"
+import { TransactionPreview } from "../provider/TransactionPreview"
 import { AddressString, IntNumber, RegExpString } from "../types"
-import { EthereumTransactionParams } from "./EthereumTransactionParams"
+import {
+  EthereumCallParams,
+  EthereumTransactionParams
+} from "./EthereumTransactionParams"
 import { Session } from "./Session"
 import { Web3Request } from "./Web3Request"
 import {
   AddEthereumChainResponse,
+  DecryptEthereumMessageResponse,
   EthereumAddressFromSignedMessageResponse,
   GenericResponse,
+  GetCallsStatusResponse,
+  GetCapabilitiesResponse,
+  GetEncryptionPublicKeyResponse,
   RequestEthereumAccountsResponse,
   ScanQRCodeResponse,
+  SendCallsResponse,
+  ShowCallsStatusResponse,
   SignEthereumMessageResponse,
   SignEthereumTransactionResponse,
   SubmitEthereumTransactionResponse,
   SwitchEthereumChainResponse,
+  WatchAssetResponse,
   Web3Response
 } from "./Web3Response"
 
 export const WALLET_USER_NAME_KEY = "walletUsername"
 export const LOCAL_STORAGE_ADDRESSES_KEY = "Addresses"
+export const LOCAL_STORAGE_PERMISSIONS_KEY = "Permissions"
+export const LOCAL_STORAGE_ACCOUNTS_REVOKED_KEY = "AccountsPermissionRevoked"
 export const APP_VERSION_KEY = "AppVersion"
 
 export type CancelablePromise<T> = {
@@ -49,6 +62,15 @@ export abstract class WalletLinkRelayAbstract {
     chainId: string
   ): CancelablePromise<SwitchEthereumChainResponse>
 
+  abstract watchAsset(
+    type: string,
+    address: AddressString,
+    symbol?: string,
+    decimals?: number,
+    image?: string,
+    tokenId?: string
+  ): CancelablePromise<WatchAssetResponse>
+
   abstract signEthereumMessage(
     message: Buffer,
     address: AddressString,
@@ -62,6 +84,15 @@ export abstract class WalletLinkRelayAbstract {
     addPrefix: boolean
   ): CancelablePromise<EthereumAddressFromSignedMessageResponse>
 
+  abstract getEncryptionPublicKey(
+    address: AddressString
+  ): CancelablePromise<GetEncryptionPublicKeyResponse>
+
+  abstract decryptEthereumMessage(
+    message: Buffer,
+    address: AddressString
+  ): CancelablePromise<DecryptEthereumMessageResponse>
+
   abstract signEthereumTransaction(
     params: EthereumTransactionParams
   ): CancelablePromise<SignEthereumTransactionResponse>
@@ -75,6 +106,29 @@ export abstract class WalletLinkRelayAbstract {
     chainId: IntNumber
   ): CancelablePromise<SubmitEthereumTransactionResponse>
 
+  /**
+   * Shows what a transaction will do while it awaits confirmation
+   * returns a callback that hides the preview
+   */
+  abstract showTransactionPreview(preview: TransactionPreview): () => void
+
+  abstract sendCalls(
+    fromAddress: AddressString,
+    calls: EthereumCallParams[],
+    chainId: IntNumber,
+    atomicRequired: boolean
+  ): CancelablePromise<SendCallsResponse>
+
+  abstract getCallsStatus(id: string): CancelablePromise<GetCallsStatusResponse>
+
+  abstract showCallsStatus(
+    id: string
+  ): CancelablePromise<ShowCallsStatusResponse>
+
+  abstract getCapabilities(
+    address: AddressString
+  ): CancelablePromise<GetCapabilitiesResponse>
+
   abstract scanQRCode(
     regExp: RegExpString
   ): CancelablePromise<ScanQRCodeResponse>
@@ -6,6 +6,8 @@ type ResponseCallback = (response: Web3Response) => void
 export class WalletLinkRelayEventManager {
   _nextRequestId = 0
   callbacks = new Map<string, ResponseCallback>()
+  // <request id, time in ms after which the wallet no longer answers>
+  private readonly expirations = new Map<string, number>()
 
   public makeRequestId(): number {
     // max nextId == max int32 for compatibility with mobile
@@ -19,4 +21,41 @@ export class WalletLinkRelayEventManager {
     }
     return id
   }
+
+  /**
+   * Sets the callback of a request the wallet refuses to answer after
+   * expiresAt, so that it can be removed if it is left behind. Without
+   * expiresAt, the request does not expire.
+   */
+  public setExpiringCallback(
+    id: string,
+    callback: ResponseCallback,
+    expiresAt?: number
+  ): void {
+    this.callbacks.set(id, callback)
+    if (expiresAt === undefined) {
+      this.expirations.delete(id)
+    } else {
+      this.expirations.set(id, expiresAt)
+    }
+  }
+
+  /**
+   * Removes the callbacks of requests that expired before now, which can no
+   * longer be invoked
+   * returns the ids of the requests whose callbacks were removed
+   */
+  public removeExpiredCallbacks(now = Date.now()): string[] {
+    const removed: string[] = []
+    this.expirations.forEach((expiresAt, id) => {
+      if (!this.callbacks.has(id)) {
+        this.expirations.delete(id)
+      } else if (expiresAt <= now) {
+        this.callbacks.delete(id)
+        this.expirations.delete(id)
+        removed.push(id)
+      }
+    })
+    return removed
+  }
 }
@@ -8,10 +8,17 @@ export enum Web3Method {
   signEthereumTransaction = "signEthereumTransaction",
   submitEthereumTransaction = "submitEthereumTransaction",
   ethereumAddressFromSignedMessage = "ethereumAddressFromSignedMessage",
+  getEncryptionPublicKey = "getEncryptionPublicKey",
+  decryptEthereumMessage = "decryptEthereumMessage",
   scanQRCode = "scanQRCode",
   generic = "generic",
   childRequestEthereumAccounts = "childRequestEthereumAccounts",
   addEthereumChain = "addEthereumChain",
   switchEthereumChain = "switchEthereumChain",
+  watchAsset = "watchAsset",
+  sendCalls = "sendCalls",
+  getCallsStatus = "getCallsStatus",
+  showCallsStatus = "showCallsStatus",
+  getCapabilities = "getCapabilities",
   makeEthereumJSONRPCRequest = "makeEthereumJSONRPCRequest"
 }
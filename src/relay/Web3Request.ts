@@ -3,6 +3,7 @@
 // Licensed under the Apache License, version 2.0
 
 import {
+  AccessList,
   AddressString,
   BigIntString,
   HexString,
@@ -50,6 +51,20 @@ export type SwitchEthereumChainRequest = BaseWeb3Request<
   }
 >
 
+export type WatchAssetRequest = BaseWeb3Request<
+  Web3Method.watchAsset,
+  {
+    type: string
+    options: {
+      address: AddressString
+      symbol?: string
+      decimals?: number
+      image?: string
+      tokenId?: string
+    }
+  }
+>
+
 export type SignEthereumMessageRequest = BaseWeb3Request<
   Web3Method.signEthereumMessage,
   {
@@ -73,10 +88,47 @@ export type SignEthereumTransactionRequest = BaseWeb3Request<
     maxPriorityFeePerGas: BigIntString | null // in wei
     gasLimit: BigIntString | null
     chainId: IntNumber
+    type: IntNumber | null
+    accessList: AccessList | null
     shouldSubmit: boolean
   }
 >
 
+export type SendCallsRequest = BaseWeb3Request<
+  Web3Method.sendCalls,
+  {
+    fromAddress: AddressString
+    calls: {
+      toAddress: AddressString | null
+      weiValue: BigIntString
+      data: HexString
+    }[]
+    chainId: IntNumber
+    atomicRequired: boolean
+  }
+>
+
+export type GetCallsStatusRequest = BaseWeb3Request<
+  Web3Method.getCallsStatus,
+  {
+    id: string
+  }
+>
+
+export type ShowCallsStatusRequest = BaseWeb3Request<
+  Web3Method.showCallsStatus,
+  {
+    id: string
+  }
+>
+
+export type GetCapabilitiesRequest = BaseWeb3Request<
+  Web3Method.getCapabilities,
+  {
+    address: AddressString
+  }
+>
+
 export type SubmitEthereumTransactionRequest = BaseWeb3Request<
   Web3Method.submitEthereumTransaction,
   {
@@ -94,6 +146,21 @@ export type EthereumAddressFromSignedMessageRequest = BaseWeb3Request<
   }
 >
 
+export type GetEncryptionPublicKeyRequest = BaseWeb3Request<
+  Web3Method.getEncryptionPublicKey,
+  {
+    address: AddressString
+  }
+>
+
+export type DecryptEthereumMessageRequest = BaseWeb3Request<
+  Web3Method.decryptEthereumMessage,
+  {
+    message: HexString // JSON encoded EncryptedData
+    address: AddressString
+  }
+>
+
 export type ScanQRCodeRequest = BaseWeb3Request<
   Web3Method.scanQRCode,
   {
@@ -124,8 +191,15 @@ export type Web3Request =
   | SignEthereumTransactionRequest
   | SubmitEthereumTransactionRequest
   | EthereumAddressFromSignedMessageRequest
+  | GetEncryptionPublicKeyRequest
+  | DecryptEthereumMessageRequest
   | ScanQRCodeRequest
   | GenericRequest
   | AddEthereumChainRequest
   | SwitchEthereumChainRequest
+  | WatchAssetRequest
+  | SendCallsRequest
+  | GetCallsStatusRequest
+  | ShowCallsStatusRequest
+  | GetCapabilitiesRequest
   | MakeEthereumJSONRPCRequest
@@ -9,6 +9,9 @@ export interface Web3RequestMessage
   extends RelayMessage<RelayMessageType.WEB3_REQUEST> {
   id: string
   request: Web3Request
+  // time in milliseconds since the epoch after which the wallet should refuse
+  // the request, if it expires
+  expiresAt?: number
 }
 
 export function Web3RequestMessage(
@@ -60,6 +60,15 @@ export function SwitchEthereumChainResponse(
   }
 }
 
+export type WatchAssetResponse = BaseWeb3Response<boolean> // was asset added
+
+export function WatchAssetResponse(success: boolean): WatchAssetResponse {
+  return {
+    method: Web3Method.watchAsset,
+    result: success
+  }
+}
+
 export function RequestEthereumAccountsResponse(
   addresses: AddressString[]
 ): RequestEthereumAccountsResponse {
@@ -108,6 +117,57 @@ export function EthereumAddressFromSignedMessageResponse(
 export type EthereumAddressFromSignedMessageResponse =
   BaseWeb3Response<AddressString> // ethereum address
 
+export function GetEncryptionPublicKeyResponse(
+  publicKey: string
+): GetEncryptionPublicKeyResponse {
+  return { method: Web3Method.getEncryptionPublicKey, result: publicKey }
+}
+
+export type GetEncryptionPublicKeyResponse = BaseWeb3Response<string> // base64 encoded public key
+
+export function DecryptEthereumMessageResponse(
+  message: string
+): DecryptEthereumMessageResponse {
+  return { method: Web3Method.decryptEthereumMessage, result: message }
+}
+
+export type DecryptEthereumMessageResponse = BaseWeb3Response<string> // decrypted message
+
+export type SendCallsResponse = BaseWeb3Response<string> // call bundle id
+
+/**
+ * EIP-5792 call bundle status. status is 100 (pending), 200 (confirmed),
+ * 400 (failed offchain), 500 (reverted onchain) or 600 (partially executed)
+ */
+export type CallsStatus = {
+  version: string
+  id: string
+  chainId: HexString
+  status: number
+  atomic: boolean
+  receipts?: {
+    logs: { address: string; data: string; topics: string[] }[]
+    status: HexString
+    blockHash: HexString
+    blockNumber: HexString
+    gasUsed: HexString
+    transactionHash: HexString
+  }[]
+  // why the calls failed offchain, when status is 400
+  error?: { code: number; message: string }
+}
+
+export type GetCallsStatusResponse = BaseWeb3Response<CallsStatus>
+
+export type ShowCallsStatusResponse = BaseWeb3Response<void>
+
+/**
+ * EIP-5792 wallet capabilities keyed by hex chain id
+ */
+export type WalletCapabilities = Record<string, Record<string, unknown>>
+
+export type GetCapabilitiesResponse = BaseWeb3Response<WalletCapabilities>
+
 export type ScanQRCodeResponse = BaseWeb3Response<string> // scanned string
 
 export type GenericResponse = BaseWeb3Response<object> // response data
@@ -121,8 +181,15 @@ export type Web3Response =
   | SignEthereumTransactionResponse
   | SubmitEthereumTransactionResponse
   | EthereumAddressFromSignedMessageResponse
+  | GetEncryptionPublicKeyResponse
+  | DecryptEthereumMessageResponse
   | ScanQRCodeResponse
   | GenericResponse
   | AddEthereumChainResponse
   | SwitchEthereumChainResponse
+  | WatchAssetResponse
+  | SendCallsResponse
+  | GetCallsStatusResponse
+  | ShowCallsStatusResponse
+  | GetCapabilitiesResponse
   | MakeEthereumJSONRPCResponse
@@ -10,11 +10,16 @@ import { hexStringToUint8Array, uint8ArrayToHex } from '../util';
  *
  * @param plainText string to be encrypted
  * @param secret hex representation of 32-byte secret
+ * @param additionalData authenticated but not encrypted, needed to decrypt
  * returns hex string representation of bytes in the order: initialization vector (iv),
  * auth tag, encrypted plaintext. IV is 12 bytes. Auth tag is 16 bytes. Remaining bytes are the
  * encrypted plainText.
  */
-export async function encrypt(plainText: string, secret: string): Promise<string> {
+export async function encrypt(
+  plainText: string,
+  secret: string,
+  additionalData?: string
+): Promise<string> {
   if (secret.length !== 64) throw Error(`secret must be 256 bits`)
   const ivBytes = crypto.getRandomValues(new Uint8Array(12))
   const secretKey: CryptoKey = await crypto.subtle.importKey(
@@ -29,10 +34,7 @@ export async function encrypt(plainText: string, secret: string): Promise<string
 
   // Will return encrypted plainText with auth tag (ie MAC or checksum) appended at the end
   const encryptedResult: ArrayBuffer = await window.crypto.subtle.encrypt(
-    {
-      name: "AES-GCM",
-      iv: ivBytes
-    },
+    gcmParams(ivBytes, additionalData),
     secretKey,
     enc.encode(plainText)
   );
@@ -52,8 +54,13 @@ export async function encrypt(plainText: string, secret: string): Promise<string
  * @param cipherText hex string representation of bytes in the order: initialization vector (iv),
  * auth tag, encrypted plaintext. IV is 12 bytes. Auth tag is 16 bytes.
  * @param secret hex string representation of 32-byte secret
+ * @param additionalData data the plainText was encrypted with, if any
  */
-export function decrypt(cipherText: string, secret: string): Observable<string> {
+export function decrypt(
+  cipherText: string,
+  secret: string,
+  additionalData?: string
+): Observable<string> {
   if (secret.length !== 64) throw Error(`secret must be 256 bits`)
   return new Observable<string>((subscriber) => {
     void (async function() {
@@ -71,10 +78,7 @@ export function decrypt(cipherText: string, secret: string): Observable<string>
       const authTagBytes = encrypted.slice(12, 28)
       const encryptedPlaintextBytes = encrypted.slice(28)
       const concattedBytes = new Uint8Array([...encryptedPlaintextBytes, ...authTagBytes])
-      const algo = {
-        name: "AES-GCM",
-        iv: new Uint8Array(ivBytes)
-      }
+      const algo = gcmParams(new Uint8Array(ivBytes), additionalData)
       try {
         const decrypted = await window.crypto.subtle.decrypt(
           algo,
@@ -89,4 +93,14 @@ export function decrypt(cipherText: string, secret: string): Observable<string>
       }
     })()
   })
-}
\ No newline at end of file
+}
+
+function gcmParams(iv: Uint8Array, additionalData?: string): AesGcmParams {
+  return additionalData === undefined
+    ? { name: "AES-GCM", iv }
+    : {
+        name: "AES-GCM",
+        iv,
+        additionalData: new TextEncoder().encode(additionalData)
+      }
+}
@@ -30,4 +30,9 @@ export function IntNumber(num: number): IntNumber {
 export type RegExpString = OpaqueType<"RegExpString", string>
 export const RegExpString = OpaqueType<RegExpString>()
 
+export type AccessList = {
+  address: AddressString
+  storageKeys: HexString[]
+}[]
+
 export type Callback<T> = (err: Error | null, result: T | null) => void
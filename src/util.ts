@@ -5,6 +5,7 @@
 import BN from "bn.js"
 
 import {
+  AccessList,
   AddressString,
   BigIntString,
   HexString,
@@ -12,8 +13,12 @@ import {
   RegExpString
 } from "./types"
 
+const createKeccakHash = require("keccak/js")
+
 const INT_STRING_REGEX = /^[0-9]*$/
 const HEXADECIMAL_STRING_REGEX = /^[a-f0-9]*$/
+// EIP-2718 transaction types: legacy, EIP-2930 and EIP-1559
+const TRANSACTION_TYPES = [0, 1, 2]
 
 /**
  * @param length number of bytes
@@ -110,6 +115,25 @@ export function ensureAddressString(str: unknown): AddressString {
   throw new Error(`Invalid Ethereum address: ${String(str)}`)
 }
 
+/**
+ * @param address ethereum address
+ * returns the EIP-55 mixed-case checksum encoding of the address
+ */
+export function toChecksumAddress(address: AddressString): string {
+  const hex = strip0x(address).toLowerCase()
+  const hash = keccak256(Buffer.from(hex, "utf8")).toString("hex")
+  return (
+    "0x" +
+    [...hex]
+      .map((c, i) => (parseInt(hash[i], 16) >= 8 ? c.toUpperCase() : c))
+      .join("")
+  )
+}
+
+export function keccak256(data: Buffer): Buffer {
+  return createKeccakHash("keccak256").update(data).digest()
+}
+
 export function ensureBuffer(str: unknown): Buffer {
   if (Buffer.isBuffer(str)) {
     return str
@@ -142,6 +166,39 @@ export function ensureIntNumber(num: unknown): IntNumber {
   throw new Error(`Not an integer: ${String(num)}`)
 }
 
+export function ensureTransactionType(type: unknown): IntNumber {
+  const num = ensureIntNumber(type)
+  if (!TRANSACTION_TYPES.includes(num)) {
+    throw new Error(`Unsupported transaction type: ${String(type)}`)
+  }
+  return num
+}
+
+export function ensureAccessList(accessList: unknown): AccessList {
+  if (!Array.isArray(accessList)) {
+    throw new Error(`Invalid access list: ${String(accessList)}`)
+  }
+  return accessList.map(entry => {
+    if (
+      !entry ||
+      typeof entry !== "object" ||
+      !Array.isArray(entry.storageKeys)
+    ) {
+      throw new Error(`Invalid access list entry: ${JSON.stringify(entry)}`)
+    }
+    return {
+      address: ensureAddressString(entry.address),
+      storageKeys: entry.storageKeys.map((key: unknown) => {
+        const hex = ensureHexString(key, true)
+        if (hex.length !== 66) {
+          throw new Error(`Invalid storage key: ${String(key)}`)
+        }
+        return hex
+      })
+    }
+  })
+}
+
 export function ensureRegExpString(regExp: unknown): RegExpString {
   if (regExp instanceof RegExp) {
     return RegExpString(regExp.toString())